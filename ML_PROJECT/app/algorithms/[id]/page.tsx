@@ -2,6 +2,7 @@ import { notFound } from "next/navigation"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { ChevronLeft } from "lucide-react"
+import CopyLinkButton from "@/components/copy-link-button"
 
 import LogisticRegressionPage from "@/components/algorithms/logistic-regression"
 import LinearRegressionPage from "@/components/algorithms/linear-regression"
@@ -72,13 +73,14 @@ export default function AlgorithmPage({ params }: { params: { id: string } }) {
 
   return (
     <div className="container py-12">
-      <div className="mb-8">
+      <div className="mb-8 flex items-center justify-between">
         <Link href="/">
           <Button variant="ghost" className="pl-0 hover:pl-2 transition-all">
             <ChevronLeft className="mr-2 h-4 w-4" />
             Back to Home
           </Button>
         </Link>
+        <CopyLinkButton />
       </div>
 
       <AlgorithmComponent />
@@ -1,18 +1,40 @@
 "use client"
 
-import { useState, useMemo } from "react"
+import { useMemo, useState } from "react"
+import { useSeed, useUrlState } from "@/hooks/use-url-state"
+import { useGeneratedDataset } from "@/hooks/use-generated-dataset"
+import { useEditablePoints } from "@/hooks/use-editable-points"
 import VisualizationCanvas from "@/components/visualization-canvas"
+import SeedControl from "@/components/seed-control"
+import DatasetImport from "@/components/dataset-import"
+import DatasetGenerator from "@/components/dataset-generator"
+import PointEditor, { type CanvasSize } from "@/components/point-editor"
+import type { ImportedDataset } from "@/lib/data/import"
+import { dbscan, NOISE } from "@/lib/ml/dbscan"
+import { createRandom } from "@/lib/ml/random"
+import type { Point, RandomFn } from "@/lib/ml/types"
 
 const TOTAL_POINTS = 200
 const NOISE_RATIO = 0.1
 
-const generateClusterData = (numClusters: number, clusterPointCount: number) => {
+// Same plot area as renderDBSCAN: [-1, 1] on both axes inside a 40px margin
+const MARGIN = 40
+const toCanvas = (p: Point, { width, height }: CanvasSize) => ({
+  x: MARGIN + ((p.x + 1) / 2) * (width - 2 * MARGIN),
+  y: MARGIN + ((p.y + 1) / 2) * (height - 2 * MARGIN),
+})
+const fromCanvas = (p: Point, { width, height }: CanvasSize) => ({
+  x: ((p.x - MARGIN) / (width - 2 * MARGIN)) * 2 - 1,
+  y: ((p.y - MARGIN) / (height - 2 * MARGIN)) * 2 - 1,
+})
+
+const generateClusterData = (numClusters: number, clusterPointCount: number, random: RandomFn) => {
   const clusterCenters = []
   const clusterPoints = []
 
   for (let i = 0; i < numClusters; i++) {
-    const centerX = Math.random() * 1.6 - 0.8
-    const centerY = Math.random() * 1.6 - 0.8
+    const centerX = random() * 1.6 - 0.8
+    const centerY = random() * 1.6 - 0.8
     clusterCenters.push({ x: centerX, y: centerY })
   }
 
@@ -21,8 +43,8 @@ const generateClusterData = (numClusters: number, clusterPointCount: number) =>
   for (let i = 0; i < numClusters; i++) {
     const center = clusterCenters[i]
     for (let j = 0; j < pointsPerCluster; j++) {
-      const angle = Math.random() * Math.PI * 2
-      const distance = Math.random() * 0.3
+      const angle = random() * Math.PI * 2
+      const distance = random() * 0.3
 
       const x = Math.max(-1, Math.min(1, center.x + Math.cos(angle) * distance))
       const y = Math.max(-1, Math.min(1, center.y + Math.sin(angle) * distance))
@@ -35,16 +57,38 @@ const generateClusterData = (numClusters: number, clusterPointCount: number) =>
 }
 
 export default function DBSCANPage() {
-  const [params, setParams] = useState({
+  const [params, setParams] = useUrlState({
     epsilon: 0.2,
     minPoints: 5,
     numClusters: 3,
+  }, {
+    epsilon: { min: 0.05, max: 0.5 },
+    minPoints: { min: 2, max: 10, integer: true },
+    numClusters: { min: 1, max: 5, integer: true },
   })
+  const [seed, setSeed] = useSeed()
+  const [imported, setImported] = useState<ImportedDataset | null>(null)
+  const [generatorSettings, setGeneratorSettings, generated] = useGeneratedDataset(seed)
+  // Imported data takes precedence over the shared generator
+  const dataset = imported ?? generated
+
+  const basePoints = useMemo(() => {
+    if (dataset) return dataset.points.map((p) => ({ x: p.x, y: p.y }))
 
-  const { clusterPoints } = useMemo(() => {
     const clusterPointCount = Math.floor(TOTAL_POINTS * (1 - NOISE_RATIO))
-    return generateClusterData(params.numClusters, clusterPointCount)
-  }, [params.numClusters])
+    const { clusterPoints } = generateClusterData(params.numClusters, clusterPointCount, createRandom(seed, "data"))
+
+    // Add noise (same points for a given seed); imported and generated data bring their own
+    const noiseRandom = createRandom(seed, "noise")
+    const noiseCount = Math.floor(TOTAL_POINTS * NOISE_RATIO)
+    const noise = Array.from({ length: noiseCount }, () => ({
+      x: noiseRandom() * 2 - 1,
+      y: noiseRandom() * 2 - 1,
+    }))
+
+    return [...clusterPoints.map(({ x, y }) => ({ x, y })), ...noise]
+  }, [params.numClusters, seed, dataset])
+  const [editedPoints, setEditedPoints] = useEditablePoints<Point>(basePoints)
 
   const paramControls = [
     {
@@ -82,68 +126,11 @@ export default function DBSCANPage() {
 
     ctx.clearRect(0, 0, width, height)
 
-    // Copy static points
-    const points = clusterPoints.map((p) => ({ ...p }))
+    // Copy points; DBSCAN labels them below
+    const points = editedPoints.map((p) => ({ x: p.x, y: p.y, cluster: -2 }))
 
-    // Add noise (regenerated each render)
-    const noiseCount = Math.floor(TOTAL_POINTS * NOISE_RATIO)
-    for (let i = 0; i < noiseCount; i++) {
-      const x = Math.random() * 2 - 1
-      const y = Math.random() * 2 - 1
-      points.push({ x, y, cluster: -1 }) // -1 = noise
-    }
-
-    // DBSCAN implementation (same as before)
-    const dbscan = (points: any[], eps: number, minPts: number) => {
-      let clusterIndex = 0
-
-      const getNeighbors = (pointIndex: number) => {
-        const neighbors = []
-        const point = points[pointIndex]
-        for (let i = 0; i < points.length; i++) {
-          if (i === pointIndex) continue
-          const otherPoint = points[i]
-          const distance = Math.sqrt(Math.pow(point.x - otherPoint.x, 2) + Math.pow(point.y - otherPoint.y, 2))
-          if (distance <= eps) neighbors.push(i)
-        }
-        return neighbors
-      }
-
-      const expandCluster = (pointIndex: number, neighbors: number[], cluster: number) => {
-        points[pointIndex].cluster = cluster
-        for (let i = 0; i < neighbors.length; i++) {
-          const neighborIndex = neighbors[i]
-          if (points[neighborIndex].cluster === -1) {
-            points[neighborIndex].cluster = cluster
-            const neighborNeighbors = getNeighbors(neighborIndex)
-            if (neighborNeighbors.length >= minPts) {
-              for (const nn of neighborNeighbors) {
-                if (!neighbors.includes(nn)) neighbors.push(nn)
-              }
-            }
-          } else if (points[neighborIndex].cluster === -2) {
-            points[neighborIndex].cluster = cluster
-          }
-        }
-      }
-
-      for (const point of points) point.cluster = -2 // unvisited
-
-      for (let i = 0; i < points.length; i++) {
-        if (points[i].cluster !== -2) continue
-        const neighbors = getNeighbors(i)
-        if (neighbors.length < minPts) {
-          points[i].cluster = -1
-          continue
-        }
-        clusterIndex++
-        expandCluster(i, neighbors, clusterIndex)
-      }
-
-      return clusterIndex
-    }
-
-    const numClustersFound = dbscan(points, epsilon, minPoints)
+    const { labels, clusterCount: numClustersFound } = dbscan(points, epsilon, minPoints)
+    points.forEach((point, i) => (point.cluster = labels[i]))
 
     // Draw axes
     ctx.strokeStyle = "#666"
@@ -171,12 +158,13 @@ export default function DBSCANPage() {
     ctx.fillText("1", margin - 10, margin)
 
     const clusterColors = ["#4ade80", "#60a5fa", "#f472b6", "#fb923c", "#a78bfa"]
+    const highlightRandom = createRandom(seed, "highlight")
 
     for (const point of points) {
       const canvasX = margin + ((point.x + 1) / 2) * plotWidth
       const canvasY = margin + ((point.y + 1) / 2) * plotHeight
       let color
-      if (point.cluster === -1) color = "#f87171"
+      if (point.cluster === NOISE) color = "#f87171"
       else color = clusterColors[(point.cluster - 1) % clusterColors.length]
 
       ctx.fillStyle = color
@@ -184,7 +172,7 @@ export default function DBSCANPage() {
       ctx.arc(canvasX, canvasY, 4, 0, Math.PI * 2)
       ctx.fill()
 
-      if (Math.random() < 0.05) {
+      if (highlightRandom() < 0.05) {
         ctx.strokeStyle = "rgba(255, 255, 255, 0.3)"
         ctx.beginPath()
         ctx.arc(canvasX, canvasY, (epsilon * plotWidth) / 2, 0, Math.PI * 2)
@@ -198,7 +186,7 @@ export default function DBSCANPage() {
     ctx.fillText(`Epsilon: ${epsilon}`, margin + 10, margin + 20)
     ctx.fillText(`Min Points: ${minPoints}`, margin + 10, margin + 40)
     ctx.fillText(`Clusters Found: ${numClustersFound}`, margin + 10, margin + 60)
-    ctx.fillText(`Noise Points: ${points.filter((p) => p.cluster === -1).length}`, margin + 10, margin + 80)
+    ctx.fillText(`Noise Points: ${points.filter((p) => p.cluster === NOISE).length}`, margin + 10, margin + 80)
   }
 
   return (
@@ -219,7 +207,26 @@ export default function DBSCANPage() {
             setParams={setParams}
             paramControls={paramControls}
             height={500}
-          />
+          >
+            <PointEditor
+              points={editedPoints}
+              onChange={(points) => setEditedPoints(points.map(({ x, y }) => ({ x, y })))}
+              toCanvas={toCanvas}
+              fromCanvas={fromCanvas}
+            />
+          </VisualizationCanvas>
+          <div className="mt-4">
+            <SeedControl seed={seed} onSeedChange={setSeed} />
+          </div>
+          <div className="mt-4">
+            <DatasetGenerator
+              settings={generatorSettings}
+              onChange={setGeneratorSettings}
+              overridden={!!imported}
+              defaultLabel="Random clusters"
+            />
+            <DatasetImport dataset={imported} onImport={setImported} useLabels={false} />
+          </div>
         </div>
 
         <div className="space-y-6">
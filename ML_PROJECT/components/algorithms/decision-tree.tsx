@@ -1,252 +1,639 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useSeed, useUrlState } from "@/hooks/use-url-state";
+import { useGeneratedDataset } from "@/hooks/use-generated-dataset";
 import "katex/dist/katex.min.css";
 import { BlockMath } from "react-katex";
 import { FiRefreshCw } from 'react-icons/fi';
+import {
+  buildTree,
+  costComplexityPath,
+  findNodePath,
+  gridPaths,
+  impurityFunctions,
+  isRegression,
+  predictTree,
+  pruneTree,
+  shuffle,
+  type Criterion,
+  type Sample,
+  type TreeNode,
+} from "@/lib/ml/decision-tree";
+import { createRandom } from "@/lib/ml/random";
+import { TREE_FORMAT_VERSION, type TreeModel } from "@/lib/ml/tree-export";
+import { IRIS_FEATURE_NAMES, IRIS_FEATURES, IRIS_URL, irisToTabular, parseIrisFeatures, type IrisRow } from "@/lib/data/iris";
+import { pointsToTabular } from "@/lib/data/tabular";
+import { generateRegression, REGRESSION_GENERATORS, type RegressionKind } from "@/lib/data/regression";
+import SeedControl from "@/components/seed-control";
+import DatasetGenerator from "@/components/dataset-generator";
+import FeaturePicker from "@/components/feature-picker";
+import TreeDiagram from "@/components/tree-diagram";
+import TreeExport from "@/components/tree-export";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+
+// Leaf colors by class; the first three match the Iris species
+const classColors = ["red", "blue", "green", "orange", "cyan"];
+
+// Decision region map: plot size, inner margin and grid cells per axis
+const REGION_WIDTH = 700;
+const REGION_HEIGHT = 450;
+const REGION_MARGIN = 40;
+const REGION_RESOLUTION = 100;
+
+// Share of the samples kept out of training to measure generalization
+const HOLDOUT_RATIO = 0.3;
+
+const REGRESSION_SAMPLES = 150;
+
+// The decision region map plots two features, so classification never splits on fewer
+const MIN_CLASSIFICATION_FEATURES = 2;
+
+const accuracyChartConfig = {
+  train: { label: "Train", color: "#ff3860" },
+  test: { label: "Held-out", color: "#38bdf8" },
+} satisfies ChartConfig;
+
+type Range = [number, number];
+type Box = { x: Range; y: Range };
+
+function paddedRange(values: number[]): Range {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const pad = (max - min || 1) * 0.05;
+  return [min - pad, max + pad];
+}
+
+function accuracy(tree: TreeNode, samples: Sample[]) {
+  if (samples.length === 0) return 0;
+  return samples.filter((s) => predictTree(tree, s.features) === s.label).length / samples.length;
+}
+
+// Coefficient of determination: 1 is a perfect fit, 0 is no better than predicting the mean
+function rSquared(tree: TreeNode, samples: Sample[]) {
+  if (samples.length === 0) return 0;
+  const mean = samples.reduce((sum, s) => sum + s.label, 0) / samples.length;
+  const total = samples.reduce((sum, s) => sum + (s.label - mean) ** 2, 0);
+  const residual = samples.reduce((sum, s) => sum + (s.label - predictTree(tree, s.features)) ** 2, 0);
+  return total > 0 ? 1 - residual / total : 0;
+}
+
+// Blue (low) to red (high) across the target range
+function valueColor(value: number, [min, max]: Range) {
+  const t = Math.min(1, Math.max(0, (value - min) / (max - min || 1)));
+  return `hsl(${240 * (1 - t)}, 80%, 50%)`;
+}
 
-type Point = {
-  sepalLength: number;
-  sepalWidth: number;
-  species: string;
-};
-
-type Node = {
-  feature: number | null;
-  threshold: number | null;
-  impurity: number | null;
-  left: Node | null;
-  right: Node | null;
-  value: number | null;
-};
+function featureMedians(samples: Sample[]) {
+  return samples[0].features.map((_, f) => {
+    const values = samples.map((s) => s.features[f]).sort((a, b) => a - b);
+    const mid = Math.floor(values.length / 2);
+    return values.length % 2 ? values[mid] : (values[mid - 1] + values[mid]) / 2;
+  });
+}
+
+// Every node with the part of the plotted plane it owns; splits on other features leave the box unchanged
+function nodeBoxes(node: TreeNode, xFeature: number, yFeature: number, box: Box): { node: TreeNode; box: Box }[] {
+  if (!node.left || !node.right) return [{ node, box }];
+  const t = node.threshold!;
+  let leftBox = box;
+  let rightBox = box;
+  if (node.feature === xFeature) {
+    leftBox = { ...box, x: [box.x[0], Math.min(box.x[1], t)] };
+    rightBox = { ...box, x: [Math.max(box.x[0], t), box.x[1]] };
+  } else if (node.feature === yFeature) {
+    leftBox = { ...box, y: [box.y[0], Math.min(box.y[1], t)] };
+    rightBox = { ...box, y: [Math.max(box.y[0], t), box.y[1]] };
+  }
+  return [
+    { node, box },
+    ...nodeBoxes(node.left, xFeature, yFeature, leftBox),
+    ...nodeBoxes(node.right, xFeature, yFeature, rightBox),
+  ];
+}
+
+// Mouse position in canvas pixels, accounting for CSS scaling
+function canvasPoint(e: React.MouseEvent<HTMLCanvasElement>) {
+  const rect = e.currentTarget.getBoundingClientRect();
+  return {
+    x: ((e.clientX - rect.left) * e.currentTarget.width) / rect.width,
+    y: ((e.clientY - rect.top) * e.currentTarget.height) / rect.height,
+  };
+}
 
 export default function DecisionTreePage() {
-  const [irisDataset, setIrisDataset] = useState<Point[]>([]);
-  const [params, setParams] = useState({
+  const [irisDataset, setIrisDataset] = useState<IrisRow[]>([]);
+  const [params, setParams] = useUrlState({
+    // "classification" on Iris or a generated dataset, "regression" on a synthetic target
+    task: "classification",
+    regressionDataset: "sine",
+    regressionNoise: 0.15,
     maxDepth: 3,
     minSamplesSplit: 2,
     criterion: "gini",
     treeHeight: 600,
+    // Iris features the splits may use, comma-separated
+    features: IRIS_FEATURES.join(","),
+    // Axes of the decision region map, as indices into the split features
+    xFeature: 0,
+    yFeature: 1,
+    // Cost-complexity pruning strength (sklearn's ccp_alpha)
+    ccpAlpha: 0,
+  }, {
+    task: ["classification", "regression"],
+    regressionDataset: Object.keys(REGRESSION_GENERATORS),
+    regressionNoise: { min: 0, max: 0.5 },
+    maxDepth: { min: 1, max: 6, integer: true },
+    minSamplesSplit: { min: 2, max: 10, integer: true },
+    criterion: Object.keys(impurityFunctions),
+    treeHeight: { min: 200, max: 2000 },
+    xFeature: { min: 0, max: Infinity, integer: true },
+    yFeature: { min: 0, max: Infinity, integer: true },
+    ccpAlpha: { min: 0, max: Infinity },
   });
 
-  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [seed, setSeed] = useSeed();
+  const [generatorSettings, setGeneratorSettings, generated] = useGeneratedDataset(seed);
 
-  const labelMap: Record<string, number> = {
-    setosa: 0,
-    versicolor: 1,
-    virginica: 2,
-  };
+  // ccpAlpha is a point on one tree's pruning path; anything that regrows the tree starts the new path unpruned
+  const resetPruning = () => setParams((prev) => ({ ...prev, ccpAlpha: 0 }));
 
-  const featureNames = ["Sepal Length", "Sepal Width"];
+  const regionCanvasRef = useRef<HTMLCanvasElement | null>(null);
 
-  useEffect(() => {
-    fetch("/data/irisDataset.json")
-      .then((res) => res.json())
-      .then((data) => setIrisDataset(data))
-      .catch((err) => console.error("Failed to load dataset:", err));
-  }, []);
+  const irisFeatures = useMemo(() => parseIrisFeatures(params.features), [params.features]);
 
-  function calculateGini(labels: number[]) {
-    const counts: Record<number, number> = {};
-    for (const lbl of labels) {
-      counts[lbl] = (counts[lbl] || 0) + 1;
-    }
-    let impurity = 1;
-    for (const count of Object.values(counts)) {
-      const p = count / labels.length;
-      impurity -= p * p;
-    }
-    return impurity;
-  }
+  const regression = params.task === "regression";
+  // An unknown criterion, or one left over from the other task, falls back to that task's default
+  const criterion = (
+    Object.hasOwn(impurityFunctions, params.criterion) && isRegression(params.criterion as Criterion) === regression
+      ? params.criterion
+      : regression ? "mse" : "gini"
+  ) as Criterion;
+  const regressionKind = (Object.hasOwn(REGRESSION_GENERATORS, params.regressionDataset) ? params.regressionDataset : "sine") as RegressionKind;
 
-  function calculateEntropy(labels: number[]) {
-    const counts: Record<number, number> = {};
-    for (const lbl of labels) {
-      counts[lbl] = (counts[lbl] || 0) + 1;
+  // Iris by default; a generated dataset becomes a two-feature (x, y) table
+  const { samples, featureNames, classNames } = useMemo(() => {
+    if (regression) {
+      const data = generateRegression(regressionKind, REGRESSION_SAMPLES, params.regressionNoise, createRandom(seed, "regression"));
+      return { samples: data.samples, featureNames: data.featureNames, classNames: [] as string[] };
     }
-    let entropy = 0;
-    for (const count of Object.values(counts)) {
-      const p = count / labels.length;
-      entropy -= p * Math.log2(p);
-    }
-    return entropy;
-  }
-
-  function findBestSplit(data: Point[], criterion: string, minSamplesSplit: number) {
-    if (data.length < minSamplesSplit) return null;
-
-    const impurityFn = criterion === "gini" ? calculateGini : calculateEntropy;
-    const labels = data.map((p) => labelMap[p.species]);
-    const currentImpurity = impurityFn(labels);
-
-    let bestGain = 0;
-    let bestFeature: number | null = null;
-    let bestThreshold: number | null = null;
-    let bestImpurity = currentImpurity;
+    return generated
+      ? pointsToTabular(generated)
+      : irisToTabular(irisDataset, irisFeatures.length >= MIN_CLASSIFICATION_FEATURES ? irisFeatures : IRIS_FEATURES);
+  }, [regression, regressionKind, params.regressionNoise, seed, generated, irisDataset, irisFeatures]);
+
+  const targetRange = useMemo(
+    () => (regression && samples.length > 0 ? paddedRange(samples.map((s) => s.label)) : ([0, 1] as Range)),
+    [regression, samples]
+  );
+  const nodeColor = (value: number) =>
+    regression ? valueColor(value, targetRange) : classColors[value % classColors.length];
+  const score = regression ? rSquared : accuracy;
+  const formatScore = (value: number) => (regression ? value.toFixed(3) : `${(value * 100).toFixed(1)}%`);
+
+  const { train, test } = useMemo(() => {
+    const shuffled = shuffle(samples, createRandom(seed, "holdout"));
+    const testSize = Math.round(samples.length * HOLDOUT_RATIO);
+    return { test: shuffled.slice(0, testSize), train: shuffled.slice(testSize) };
+  }, [samples, seed]);
+  const testSet = useMemo(() => new Set(test), [test]);
+
+  // Fully grown tree on the training split, before pruning
+  const grownTree = useMemo(
+    () =>
+      train.length > 0
+        ? buildTree(train, {
+            maxDepth: params.maxDepth,
+            minSamplesSplit: params.minSamplesSplit,
+            criterion,
+          })
+        : null,
+    [train, params.maxDepth, params.minSamplesSplit, criterion]
+  );
 
-    const features = [0, 1];
+  const pruning = useMemo(() => {
+    if (!grownTree) return [];
+    return costComplexityPath(grownTree).map((step) => {
+      const pruned = pruneTree(grownTree, step.alpha);
+      return { ...step, train: score(pruned, train), test: score(pruned, test) };
+    });
+  }, [grownTree, train, test, regression]);
+
+  const tree = useMemo(
+    () => (grownTree ? pruneTree(grownTree, params.ccpAlpha) : null),
+    [grownTree, params.ccpAlpha]
+  );
 
-    for (const feature of features) {
-      const values = [...new Set(data.map((p) => (feature === 0 ? p.sepalLength : p.sepalWidth)))].sort((a, b) => a - b);
+  const exportModel = useMemo<TreeModel | null>(
+    () =>
+      tree && { format: "decision-tree", version: TREE_FORMAT_VERSION, criterion, featureNames, classNames, trees: [tree] },
+    [tree, criterion, featureNames, classNames]
+  );
 
-      for (let i = 0; i < values.length - 1; i++) {
-        const threshold = (values[i] + values[i + 1]) / 2;
-        const left = data.filter((p) => (feature === 0 ? p.sepalLength : p.sepalWidth) <= threshold);
-        const right = data.filter((p) => (feature === 0 ? p.sepalLength : p.sepalWidth) > threshold);
-        if (left.length === 0 || right.length === 0) continue;
+  // The slider walks the pruning path: each notch is the next effective alpha
+  const pruningIndex = Math.max(0, pruning.findLastIndex((step) => step.alpha <= params.ccpAlpha));
 
-        const leftLabels = left.map((p) => labelMap[p.species]);
-        const rightLabels = right.map((p) => labelMap[p.species]);
+  // Node under the mouse in either view; only valid for the tree it was picked from
+  const [hover, setHover] = useState<{ tree: TreeNode; node: TreeNode } | null>(null);
+  const hoveredNode = hover && hover.tree === tree ? hover.node : null;
+  const hoveredPath = useMemo(
+    () => (tree && hoveredNode ? findNodePath(tree, hoveredNode) ?? [] : []),
+    [tree, hoveredNode]
+  );
 
-        const leftImp = impurityFn(leftLabels);
-        const rightImp = impurityFn(rightLabels);
+  const xFeature = Math.min(params.xFeature, featureNames.length - 1);
+  const yFeature = Math.min(params.yFeature, featureNames.length - 1);
+
+  // Regression on a single feature draws one row of columns under the fitted curve instead of a map
+  const oneDimensional = regression && featureNames.length === 1;
+
+  // The tree's path for every grid cell of the plotted plane, other features held at their median
+  const regionMap = useMemo(() => {
+    if (!tree) return null;
+    const medians = featureMedians(samples);
+    const xRange = paddedRange(samples.map((s) => s.features[xFeature]));
+    const yRange = oneDimensional ? targetRange : paddedRange(samples.map((s) => s.features[yFeature]));
+    const cells = gridPaths(
+      tree,
+      medians,
+      { feature: xFeature, range: xRange },
+      oneDimensional ? null : { feature: yFeature, range: yRange },
+      REGION_RESOLUTION
+    );
+    return { medians, xRange, yRange, cells };
+  }, [tree, samples, xFeature, yFeature, oneDimensional, targetRange]);
 
-        const weightedImp = (left.length / data.length) * leftImp + (right.length / data.length) * rightImp;
-        const gain = currentImpurity - weightedImp;
+  useEffect(() => {
+    fetch(IRIS_URL)
+      .then((res) => res.json())
+      .then((data) => setIrisDataset(data))
+      .catch((err) => console.error("Failed to load dataset:", err));
+  }, []);
 
-        if (gain > bestGain) {
-          bestGain = gain;
-          bestFeature = feature;
-          bestThreshold = threshold;
-          bestImpurity = currentImpurity;
-        }
-      }
+  function renderRegionMap(ctx: CanvasRenderingContext2D, width: number, height: number) {
+    ctx.clearRect(0, 0, width, height);
+    if (!tree || !regionMap) return;
+    if (oneDimensional) {
+      renderFit(ctx, width, height);
+      return;
     }
 
-    if (bestGain === 0) return null;
-
-    return {
-      feature: bestFeature,
-      threshold: bestThreshold,
-      impurity: bestImpurity,
-    };
-  }
-
-  function buildTree(data: Point[], depth: number, maxDepth: number, minSamplesSplit: number, criterion: string): Node {
-    const node: Node = {
-      feature: null,
-      threshold: null,
-      impurity: null,
-      left: null,
-      right: null,
-      value: null,
-    };
-
-    if (depth >= maxDepth || data.length < minSamplesSplit) {
-      const labels = data.map((p) => labelMap[p.species]);
-      const sum = labels.reduce((a, b) => a + b, 0);
-      node.value = Math.round(sum / labels.length);
-      node.impurity = 0;
-      return node;
+    const { xRange, yRange, cells } = regionMap;
+    const plotWidth = width - 2 * REGION_MARGIN;
+    const plotHeight = height - 2 * REGION_MARGIN;
+    const toX = (v: number) => REGION_MARGIN + ((v - xRange[0]) / (xRange[1] - xRange[0])) * plotWidth;
+    const toY = (v: number) => REGION_MARGIN + ((yRange[1] - v) / (yRange[1] - yRange[0])) * plotHeight;
+    const cellWidth = plotWidth / REGION_RESOLUTION;
+    const cellHeight = plotHeight / REGION_RESOLUTION;
+
+    // Leaf regions, with the hovered node's region brought forward
+    cells.forEach((path, i) => {
+      const leaf = path[path.length - 1];
+      const highlighted = hoveredNode !== null && path.includes(hoveredNode);
+      ctx.globalAlpha = hoveredNode === null ? 0.3 : highlighted ? 0.55 : 0.12;
+      ctx.fillStyle = nodeColor(leaf.value);
+      ctx.fillRect(
+        REGION_MARGIN + (i % REGION_RESOLUTION) * cellWidth,
+        REGION_MARGIN + Math.floor(i / REGION_RESOLUTION) * cellHeight,
+        cellWidth + 0.5,
+        cellHeight + 0.5
+      );
+    });
+    ctx.globalAlpha = 1;
+
+    // Split lines, each limited to the part of the plane its node owns
+    const plotBox: Box = { x: xRange, y: yRange };
+    for (const { node, box } of nodeBoxes(tree, xFeature, yFeature, plotBox)) {
+      if (node.feature === null || node.threshold === null) continue;
+      if (node.feature !== xFeature && node.feature !== yFeature) continue;
+      ctx.beginPath();
+      if (node.feature === xFeature) {
+        ctx.moveTo(toX(node.threshold), toY(box.y[0]));
+        ctx.lineTo(toX(node.threshold), toY(box.y[1]));
+      } else {
+        ctx.moveTo(toX(box.x[0]), toY(node.threshold));
+        ctx.lineTo(toX(box.x[1]), toY(node.threshold));
+      }
+      ctx.strokeStyle = node === hoveredNode ? "yellow" : "#fff";
+      ctx.lineWidth = node === hoveredNode ? 3 : 1.5;
+      ctx.stroke();
     }
+    ctx.lineWidth = 1;
 
-    const split = findBestSplit(data, criterion, minSamplesSplit);
-    if (!split) {
-      const labels = data.map((p) => labelMap[p.species]);
-      const sum = labels.reduce((a, b) => a + b, 0);
-      node.value = Math.round(sum / labels.length);
-      node.impurity = 0;
-      return node;
+    // Training samples are filled, held-out ones drawn as rings
+    for (const sample of samples) {
+      const color = nodeColor(sample.label);
+      ctx.beginPath();
+      ctx.arc(toX(sample.features[xFeature]), toY(sample.features[yFeature]), 4, 0, Math.PI * 2);
+      if (testSet.has(sample)) {
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 2;
+        ctx.stroke();
+        ctx.lineWidth = 1;
+      } else {
+        ctx.fillStyle = color;
+        ctx.fill();
+        ctx.strokeStyle = "#000";
+        ctx.stroke();
+      }
     }
 
-    node.feature = split.feature;
-    node.threshold = split.threshold;
-    node.impurity = split.impurity;
-
-    const left = data.filter((p) => (split.feature === 0 ? p.sepalLength : p.sepalWidth) <= split.threshold!);
-    const right = data.filter((p) => (split.feature === 0 ? p.sepalLength : p.sepalWidth) > split.threshold!);
-
-    node.left = buildTree(left, depth + 1, maxDepth, minSamplesSplit, criterion);
-    node.right = buildTree(right, depth + 1, maxDepth, minSamplesSplit, criterion);
-
-    return node;
+    ctx.strokeStyle = "#666";
+    ctx.strokeRect(REGION_MARGIN, REGION_MARGIN, plotWidth, plotHeight);
+    ctx.fillStyle = "#fff";
+    ctx.font = "12px Arial";
+    ctx.textAlign = "center";
+    ctx.fillText(featureNames[xFeature], width / 2, height - 12);
+    ctx.fillText(xRange[0].toFixed(1), REGION_MARGIN, height - REGION_MARGIN + 16);
+    ctx.fillText(xRange[1].toFixed(1), width - REGION_MARGIN, height - REGION_MARGIN + 16);
+    ctx.textAlign = "right";
+    ctx.fillText(yRange[0].toFixed(1), REGION_MARGIN - 6, height - REGION_MARGIN);
+    ctx.fillText(yRange[1].toFixed(1), REGION_MARGIN - 6, REGION_MARGIN + 10);
+    ctx.save();
+    ctx.translate(14, height / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.textAlign = "center";
+    ctx.fillText(featureNames[yFeature], 0, 0);
+    ctx.restore();
   }
 
-  function renderDecisionTree(ctx: CanvasRenderingContext2D, width: number, height: number) {
-    ctx.clearRect(0, 0, width, height);
-
-    const tree = buildTree(irisDataset, 0, params.maxDepth, params.minSamplesSplit, params.criterion);
-
-    function drawNode(node: Node | null, x: number, y: number, dx: number, dy: number, depth: number) {
-      if (!node) return;
-
-      const radius = 20;
-
-      if (node.left) {
-        ctx.beginPath();
-        ctx.moveTo(x, y);
-        ctx.lineTo(x - dx, y + dy);
-        ctx.strokeStyle = "#ccc";
-        ctx.stroke();
-        drawNode(node.left, x - dx, y + dy, dx / 2, dy, depth + 1);
-      }
+  // Regression on one feature: the data with the tree's piecewise-constant prediction drawn over it
+  function renderFit(ctx: CanvasRenderingContext2D, width: number, height: number) {
+    if (!tree || !regionMap) return;
+
+    const { xRange, yRange, cells } = regionMap;
+    const plotWidth = width - 2 * REGION_MARGIN;
+    const plotHeight = height - 2 * REGION_MARGIN;
+    const toX = (v: number) => REGION_MARGIN + ((v - xRange[0]) / (xRange[1] - xRange[0])) * plotWidth;
+    const toY = (v: number) => REGION_MARGIN + ((yRange[1] - v) / (yRange[1] - yRange[0])) * plotHeight;
+    const cellWidth = plotWidth / REGION_RESOLUTION;
+
+    // Band of x values routed through the hovered node
+    if (hoveredNode) {
+      ctx.fillStyle = "rgba(255, 255, 0, 0.15)";
+      cells.forEach((path, col) => {
+        if (path.includes(hoveredNode)) ctx.fillRect(REGION_MARGIN + col * cellWidth, REGION_MARGIN, cellWidth + 0.5, plotHeight);
+      });
+    }
 
-      if (node.right) {
-        ctx.beginPath();
-        ctx.moveTo(x, y);
-        ctx.lineTo(x + dx, y + dy);
-        ctx.strokeStyle = "#ccc";
-        ctx.stroke();
-        drawNode(node.right, x + dx, y + dy, dx / 2, dy, depth + 1);
-      }
+    const plotBox: Box = { x: xRange, y: yRange };
+    const boxes = nodeBoxes(tree, 0, 0, plotBox);
 
+    ctx.setLineDash([4, 4]);
+    for (const { node } of boxes) {
+      if (node.threshold === null) continue;
       ctx.beginPath();
-      ctx.arc(x, y, radius, 0, Math.PI * 2);
-      const isLeaf = !node.left && !node.right;
+      ctx.moveTo(toX(node.threshold), REGION_MARGIN);
+      ctx.lineTo(toX(node.threshold), REGION_MARGIN + plotHeight);
+      ctx.strokeStyle = node === hoveredNode ? "yellow" : "#555";
+      ctx.lineWidth = node === hoveredNode ? 2 : 1;
+      ctx.stroke();
+    }
+    ctx.setLineDash([]);
+    ctx.lineWidth = 1;
 
-      if (isLeaf) {
-        ctx.fillStyle = node.value === 0 ? "red" : node.value === 1 ? "blue" : "green";
+    for (const sample of samples) {
+      ctx.beginPath();
+      ctx.arc(toX(sample.features[0]), toY(sample.label), 3.5, 0, Math.PI * 2);
+      if (testSet.has(sample)) {
+        ctx.strokeStyle = "#aaa";
+        ctx.stroke();
       } else {
-        ctx.fillStyle = "purple";
+        ctx.fillStyle = "#ddd";
+        ctx.fill();
       }
+    }
 
-      ctx.fill();
-      ctx.strokeStyle = "#fff";
+    // One flat step per leaf, joined at the thresholds
+    const leaves = boxes.filter(({ node }) => !node.left && !node.right).sort((a, b) => a.box.x[0] - b.box.x[0]);
+    ctx.beginPath();
+    leaves.forEach(({ node, box }, i) => {
+      if (i === 0) ctx.moveTo(toX(box.x[0]), toY(node.value));
+      else ctx.lineTo(toX(box.x[0]), toY(node.value));
+      ctx.lineTo(toX(box.x[1]), toY(node.value));
+    });
+    ctx.strokeStyle = "#ff3860";
+    ctx.lineWidth = 2.5;
+    ctx.stroke();
+
+    for (const { node, box } of leaves) {
+      if (!hoveredNode || !findNodePath(hoveredNode, node)) continue;
+      ctx.beginPath();
+      ctx.moveTo(toX(box.x[0]), toY(node.value));
+      ctx.lineTo(toX(box.x[1]), toY(node.value));
+      ctx.strokeStyle = "yellow";
+      ctx.lineWidth = 4;
       ctx.stroke();
-
-      ctx.fillStyle = "#fff";
-      ctx.font = "12px Arial";
-      ctx.textAlign = "center";
-      ctx.fillText(node.impurity!.toFixed(2), x, y + 4);
-
-      if (node.feature !== null && node.threshold !== null) {
-        ctx.fillStyle = "#fff";
-        ctx.font = "12px Arial";
-        ctx.fillText(featureNames[node.feature], x, y - 35);
-        ctx.fillText(`≤ ${node.threshold.toFixed(2)}`, x, y - 22);
-      }
     }
-
-    drawNode(tree, width / 2, 50, width / 5, 80, 0);
+    ctx.lineWidth = 1;
+
+    ctx.strokeStyle = "#666";
+    ctx.strokeRect(REGION_MARGIN, REGION_MARGIN, plotWidth, plotHeight);
+    ctx.fillStyle = "#fff";
+    ctx.font = "12px Arial";
+    ctx.textAlign = "center";
+    ctx.fillText(featureNames[0], width / 2, height - 12);
+    ctx.fillText(xRange[0].toFixed(1), REGION_MARGIN, height - REGION_MARGIN + 16);
+    ctx.fillText(xRange[1].toFixed(1), width - REGION_MARGIN, height - REGION_MARGIN + 16);
+    ctx.textAlign = "right";
+    ctx.fillText(yRange[0].toFixed(1), REGION_MARGIN - 6, height - REGION_MARGIN);
+    ctx.fillText(yRange[1].toFixed(1), REGION_MARGIN - 6, REGION_MARGIN + 10);
+    ctx.save();
+    ctx.translate(14, height / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.textAlign = "center";
+    ctx.fillText("target", 0, 0);
+    ctx.restore();
   }
 
   useEffect(() => {
-    const canvas = canvasRef.current;
+    const canvas = regionCanvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext("2d");
     if (!ctx) return;
-    renderDecisionTree(ctx, canvas.width, canvas.height);
-  }, [params, irisDataset]);
+    renderRegionMap(ctx, canvas.width, canvas.height);
+  }, [tree, regionMap, hoveredNode, samples, testSet, featureNames, targetRange]);
+
+  function handleRegionHover(e: React.MouseEvent<HTMLCanvasElement>) {
+    if (!tree || !regionMap) return;
+    const { x, y } = canvasPoint(e);
+    const col = Math.floor(((x - REGION_MARGIN) / (REGION_WIDTH - 2 * REGION_MARGIN)) * REGION_RESOLUTION);
+    const rowFraction = (y - REGION_MARGIN) / (REGION_HEIGHT - 2 * REGION_MARGIN);
+    const row = oneDimensional ? (rowFraction >= 0 && rowFraction < 1 ? 0 : -1) : Math.floor(rowFraction * REGION_RESOLUTION);
+    if (col < 0 || row < 0 || col >= REGION_RESOLUTION || row >= REGION_RESOLUTION) {
+      setHover(null);
+      return;
+    }
+    const path = regionMap.cells[row * REGION_RESOLUTION + col];
+    setHover({ tree, node: path[path.length - 1] });
+  }
 
   return (
     <div className="p-4 space-y-10">
       <h1 className="text-4xl font-bold mb-4">Decision Tree Visualizer</h1>
       <p className="text-lg text-muted-foreground">
-        A decision tree classifies Iris flowers by splitting data based on features like sepal length and width.
+        A decision tree classifies Iris flowers by splitting data on its sepal and petal measurements. Pick which features the splits may use to see how the tree changes,
+        or switch to regression to watch a tree approximate a curve with flat steps.
       </p>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div className="lg:col-span-2">
-          <canvas
-            ref={canvasRef}
-            width={700}
-            height={params.treeHeight - 100} 
-            className="w-full border border-gray-300 rounded-lg bg-black"
-          />
+          <div className="border border-gray-300 rounded-lg bg-black">
+            {tree && (
+              <TreeDiagram
+                tree={tree}
+                featureNames={featureNames}
+                classNames={classNames}
+                classColor={(label) => classColors[label % classColors.length]}
+                leafColor={(node) => nodeColor(node.value)}
+                highlighted={hoveredPath}
+                onNodeHover={(node) => setHover(node ? { tree, node } : null)}
+                height={params.treeHeight - 100}
+              />
+            )}
+          </div>
+
+          <div className="mt-6 space-y-2">
+            <h2 className="text-2xl font-semibold">{oneDimensional ? "Piecewise-Constant Fit" : "Decision Regions"}</h2>
+            {!oneDimensional && (
+              <div className="control-row">
+                <span className="control-label">X Axis</span>
+                <select
+                  value={xFeature}
+                  onChange={(e) => setParams({ ...params, xFeature: +e.target.value })}
+                  className="styled-select"
+                >
+                  {featureNames.map((name, f) => (
+                    <option key={name} value={f}>{name}</option>
+                  ))}
+                </select>
+                <span className="control-label ml-4">Y Axis</span>
+                <select
+                  value={yFeature}
+                  onChange={(e) => setParams({ ...params, yFeature: +e.target.value })}
+                  className="styled-select"
+                >
+                  {featureNames.map((name, f) => (
+                    <option key={name} value={f}>{name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <canvas
+              ref={regionCanvasRef}
+              width={REGION_WIDTH}
+              height={REGION_HEIGHT}
+              className="w-full border border-gray-300 rounded-lg bg-black"
+              onMouseMove={handleRegionHover}
+              onMouseLeave={() => setHover(null)}
+            />
+            {regionMap && featureNames.length > 2 && (
+              <p className="text-sm text-muted-foreground">
+                Other features held at their median:{" "}
+                {featureNames
+                  .map((name, f) => (f === xFeature || f === yFeature ? null : `${name} = ${regionMap.medians[f].toFixed(2)}`))
+                  .filter(Boolean)
+                  .join(", ")}
+              </p>
+            )}
+          </div>
+
+          <div className="mt-6 space-y-2">
+            <h2 className="text-2xl font-semibold">Pruning</h2>
+            <p className="text-sm text-muted-foreground">
+              {regression ? "R²" : "Accuracy"} of the pruned tree on the training split and on the {Math.round(HOLDOUT_RATIO * 100)}% held out
+              (rings on the map) at each effective alpha of the pruning path.
+            </p>
+            <ChartContainer config={accuracyChartConfig} className="aspect-auto h-[260px] w-full">
+              <LineChart data={pruning} margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="alpha"
+                  type="number"
+                  scale="sqrt"
+                  domain={[0, "dataMax"]}
+                  tickFormatter={(value: number) => value.toFixed(3)}
+                />
+                <YAxis
+                  domain={regression ? [(dataMin: number) => Math.min(0, Math.floor(dataMin * 10) / 10), 1] : [0, 1]}
+                  tickFormatter={(value: number) => (regression ? value.toFixed(1) : `${Math.round(value * 100)}%`)}
+                  width={45}
+                />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) => `alpha = ${Number(payload[0]?.payload.alpha).toFixed(4)}`}
+                      formatter={(value, name) => `${accuracyChartConfig[name as keyof typeof accuracyChartConfig].label}: ${formatScore(Number(value))}`}
+                    />
+                  }
+                />
+                <ReferenceLine x={pruning[pruningIndex]?.alpha ?? 0} stroke="#fff" strokeDasharray="4 4" />
+                <Line dataKey="train" type="stepAfter" stroke="var(--color-train)" strokeWidth={2} dot={{ r: 3 }} isAnimationActive={false} />
+                <Line dataKey="test" type="stepAfter" stroke="var(--color-test)" strokeWidth={2} dot={{ r: 3 }} isAnimationActive={false} />
+              </LineChart>
+            </ChartContainer>
+          </div>
 
 <section className="controls-section">
           <h3 className="text-xl font-semibold text-white mb-4">Controls</h3>
 
+          <div className="control-row">
+            <span className="control-label">Task</span>
+            <select
+              value={params.task}
+              onChange={(e) =>
+                setParams({
+                  ...params,
+                  task: e.target.value,
+                  criterion: e.target.value === "regression" ? "mse" : "gini",
+                  ccpAlpha: 0,
+                })
+              }
+              className="styled-select"
+            >
+              <option value="classification">Classification</option>
+              <option value="regression">Regression</option>
+            </select>
+          </div>
+
+          {regression && (
+            <>
+              <div className="control-row">
+                <span className="control-label">Dataset</span>
+                <select
+                  value={regressionKind}
+                  onChange={(e) => setParams({ ...params, regressionDataset: e.target.value, ccpAlpha: 0 })}
+                  className="styled-select"
+                >
+                  {(Object.keys(REGRESSION_GENERATORS) as RegressionKind[]).map((kind) => (
+                    <option key={kind} value={kind}>{REGRESSION_GENERATORS[kind].name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="control-row">
+                <span className="control-label">Noise</span>
+                <input
+                  type="range"
+                  min="0"
+                  max="50"
+                  value={params.regressionNoise * 100}
+                  onChange={(e) =>
+                    setParams({ ...params, regressionNoise: +e.target.value / 100, ccpAlpha: 0 })
+                  }
+                  style={
+                    {
+                      "--value": `${(params.regressionNoise / 0.5) * 100}%`,
+                    } as React.CSSProperties
+                  }
+                  className="slider"
+                />
+                <span className="control-value">{params.regressionNoise.toFixed(2)}</span>
+              </div>
+            </>
+          )}
+
           <div className="control-row">
             <span className="control-label">Max Depth</span>
             <input
@@ -255,7 +642,7 @@ export default function DecisionTreePage() {
               max="6"
               value={params.maxDepth}
               onChange={(e) =>
-                setParams({ ...params, maxDepth: +e.target.value })
+                setParams({ ...params, maxDepth: +e.target.value, ccpAlpha: 0 })
               }
               style={
                 {
@@ -275,7 +662,7 @@ export default function DecisionTreePage() {
               max="10"
               value={params.minSamplesSplit}
               onChange={(e) =>
-                setParams({ ...params, minSamplesSplit: +e.target.value })
+                setParams({ ...params, minSamplesSplit: +e.target.value, ccpAlpha: 0 })
               }
               style={
                 {
@@ -290,17 +677,50 @@ export default function DecisionTreePage() {
           <div className="control-row">
             <span className="control-label">Criterion</span>
             <select
-              value={params.criterion}
+              value={criterion}
               onChange={(e) =>
-                setParams({ ...params, criterion: e.target.value })
+                setParams({ ...params, criterion: e.target.value, ccpAlpha: 0 })
               }
               className="styled-select"
             >
-              <option value="Gini">Gini</option>
-              <option value="Entropy">Entropy</option>
+              {regression ? (
+                <>
+                  <option value="mse">Squared Error (MSE)</option>
+                  <option value="mae">Absolute Error (MAE)</option>
+                </>
+              ) : (
+                <>
+                  <option value="gini">Gini</option>
+                  <option value="entropy">Entropy</option>
+                </>
+              )}
             </select>
-            <span className="control-value">{params.criterion}</span>
+            <span className="control-value">{criterion}</span>
+          </div>
+
+          <div className="control-row">
+            <span className="control-label">CCP Alpha</span>
+            <input
+              type="range"
+              min="0"
+              max={Math.max(0, pruning.length - 1)}
+              value={pruningIndex}
+              onChange={(e) =>
+                setParams({ ...params, ccpAlpha: pruning[+e.target.value]?.alpha ?? 0 })
+              }
+              style={
+                {
+                  "--value": `${pruning.length > 1 ? (pruningIndex / (pruning.length - 1)) * 100 : 0}%`,
+                } as React.CSSProperties
+              }
+              className="slider"
+            />
+            <span className="control-value">{params.ccpAlpha.toFixed(3)}</span>
           </div>
+          <p className="text-sm text-muted-foreground mb-4">
+            {pruning[pruningIndex]?.leaves ?? 0} leaves · train {formatScore(pruning[pruningIndex]?.train ?? 0)} ·
+            held-out {formatScore(pruning[pruningIndex]?.test ?? 0)}
+          </p>
 
           <button
             className="reset-btn"
@@ -309,13 +729,44 @@ export default function DecisionTreePage() {
                 ...params,
                 maxDepth: 3,
                 minSamplesSplit: 2,
-                criterion: "Gini",
+                criterion: regression ? "mse" : "gini",
+                ccpAlpha: 0,
               })
             }
           >
             <FiRefreshCw className="inline-block mr-2 h-5 w-5" />
             Reset
           </button>
+
+          <div className="mt-6 space-y-4">
+            <SeedControl
+              seed={seed}
+              onSeedChange={(value) => {
+                setSeed(value);
+                resetPruning();
+              }}
+            />
+            {!regression && (
+              <>
+                <DatasetGenerator
+                  settings={generatorSettings}
+                  onChange={(settings) => {
+                    setGeneratorSettings(settings);
+                    resetPruning();
+                  }}
+                  defaultLabel="Iris"
+                />
+                <FeaturePicker
+                  features={IRIS_FEATURE_NAMES}
+                  selected={irisFeatures}
+                  minSelected={MIN_CLASSIFICATION_FEATURES}
+                  onChange={(selected) => setParams({ ...params, features: selected.join(","), ccpAlpha: 0 })}
+                  disabledReason={generated ? "Generated datasets always split on x and y." : undefined}
+                />
+              </>
+            )}
+            <TreeExport model={exportModel} classColor={(label) => classColors[label % classColors.length]} />
+          </div>
         </section>
       </div>
 
@@ -411,8 +862,14 @@ export default function DecisionTreePage() {
           <section>
             <h2 className="text-2xl font-semibold">How It Works</h2>
             <p className="text-muted-foreground">
-              Each node shows the impurity score (Gini or Entropy), and the predicted class is indicated by color.
-              If a split occurs, the feature used is shown above the node.
+              Each node card shows its split (or, for a leaf, the prediction), the impurity score, how many training
+              samples reached it and how they divide among the classes. Leaf borders take the color of the predicted
+              class. Drag to pan, scroll to zoom, and click a split to collapse or expand its subtree.
+            </p>
+            <p className="text-muted-foreground mt-2">
+              The decision region map plots the data on two of the features and shades each area by the leaf that
+              claims it; white lines are the thresholds of splits on the plotted features. Hover a node to light up
+              the region it owns, or hover the map to find the leaf and the path of splits that lead to it.
             </p>
           </section>
 
@@ -420,6 +877,8 @@ export default function DecisionTreePage() {
             <h3 className="text-xl font-semibold">Formulas</h3>
             <p className="text-muted-foreground">Gini Impurity:</p>
             <BlockMath math="Gini = 1 - \sum_{i=1}^{n} p_i^2" />
+            <p className="text-muted-foreground">Squared error (regression):</p>
+            <BlockMath math="MSE = \frac{1}{n} \sum_{i=1}^{n} (y_i - \bar{y})^2" />
             <p className="text-muted-foreground">Information Gain:</p>
             <BlockMath math="Gain = Impurity(parent) - \sum_{k} \frac{n_k}{n} Impurity(k)" />
           </section>
@@ -429,10 +888,18 @@ export default function DecisionTreePage() {
           <section>
             <h3 className="text-xl font-semibold">Node Colors</h3>
             <ul className="list-disc list-inside text-muted-foreground">
-              <li><span className="text-red-600 font-semibold">Red:</span> Setosa</li>
-              <li><span className="text-blue-600 font-semibold">Blue:</span> Versicolor</li>
-              <li><span className="text-green-600 font-semibold">Green:</span> Virginica</li>
-              <li><span className="text-purple-600 font-semibold">Purple:</span> Internal (split) node</li>
+              {regression && (
+                <li>Leaves are shaded by the value they predict, from <span className="text-blue-500 font-semibold">blue</span> (low) to <span className="text-red-500 font-semibold">red</span> (high)</li>
+              )}
+              {classNames.map((name, c) => (
+                <li key={name}>
+                  <span className="font-semibold capitalize" style={{ color: classColors[c % classColors.length] }}>
+                    {classColors[c % classColors.length]}:
+                  </span>{" "}
+                  <span className="capitalize">{name}</span>
+                </li>
+              ))}
+              <li><span className="text-purple-600 font-semibold">Purple:</span> Internal (split) node border</li>
             </ul>
           </section>
 
@@ -441,7 +908,10 @@ export default function DecisionTreePage() {
             <ul className="list-disc list-inside text-muted-foreground">
               <li><strong>Max Depth:</strong> Controls the maximum depth of the tree. Increasing the depth allows the tree to make more splits, but may lead to overfitting.</li>
               <li><strong>Min Samples Split:</strong> Defines the minimum number of samples required to split an internal node. A higher value can lead to simpler trees.</li>
-              <li><strong>Criterion:</strong> The function used to measure the quality of a split. You can choose between "Gini" (Gini impurity) and "Entropy" (Information Gain).</li>
+              <li><strong>Criterion:</strong> The function used to measure the quality of a split. You can choose between "Gini" (Gini impurity) and "Entropy" (Information Gain). Regression trees use squared error (leaves predict the mean) or absolute error (leaves predict the median).</li>
+              <li><strong>CCP Alpha:</strong> Minimal cost-complexity pruning. Each step collapses the subtree whose removal costs the least impurity per leaf saved. Small alphas keep an overgrown tree that fits the training split perfectly; large ones cut it back to a stump. The held-out accuracy usually peaks somewhere in between.</li>
+              <li><strong>Split Features:</strong> The Iris measurements the tree may split on. The petal features separate the species far better than the sepal ones, so enabling them usually gives a shallower, purer tree.</li>
+              <li><strong>Export &amp; Import:</strong> Copy or download the pruned tree as versioned JSON, nested if/else rules, or a standalone Python or JavaScript <code>predict</code> function. Importing a JSON export draws that tree again.</li>
             </ul>
           </section>
 
@@ -1,43 +1,77 @@
 "use client"
 
 import React, { useEffect, useRef, useState } from "react"
+import { useSeed, useUrlState } from "@/hooks/use-url-state"
+import { useGeneratedDataset } from "@/hooks/use-generated-dataset"
 import { Label } from "@/components/ui/label"
 import { Slider } from "@/components/ui/slider"
 import "katex/dist/katex.min.css"
 import { InlineMath } from "react-katex"
+import { kmeansStep } from "@/lib/ml/kmeans"
+import { createRandom } from "@/lib/ml/random"
+import SeedControl from "@/components/seed-control"
+import DatasetImport from "@/components/dataset-import"
+import DatasetGenerator from "@/components/dataset-generator"
+import PointEditor, { type CanvasSize } from "@/components/point-editor"
+import type { ImportedDataset } from "@/lib/data/import"
+import type { Point } from "@/lib/ml/types"
 
 const colors = ["red", "green", "blue", "orange", "purple", "cyan"]
 
+// Points live in the canvas' 800x600 attribute space; the element may be scaled by CSS
+const toCanvas = (p: Point, { width, height }: CanvasSize) => ({
+  x: (p.x / 800) * width,
+  y: (p.y / 600) * height,
+})
+const fromCanvas = (p: Point, { width, height }: CanvasSize) => ({
+  x: (p.x / width) * 800,
+  y: (p.y / height) * 600,
+})
+
 export default function KMeansVisualizer() {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const animRef = useRef<number | null>(null)
 
-  const [config, setConfig] = useState({
+  const [config, setConfig] = useUrlState({
     points: 100,
     clusters: 1,
     iterations: 10,
+  }, {
+    points: { min: 10, max: 300, integer: true },
+    clusters: { min: 1, max: 6, integer: true },
+    iterations: { min: 1, max: 100, integer: true },
   })
+  const [seed, setSeed] = useSeed()
   const [version, setVersion] = useState(0)
+  const [imported, setImported] = useState<ImportedDataset | null>(null)
+  const [generatorSettings, setGeneratorSettings, generated] = useGeneratedDataset(seed)
+  // Imported data takes precedence over the shared generator
+  const dataset = imported ?? generated
   const [data, setData] = useState<{ x: number; y: number; cluster?: number }[]>([])
   const [centroids, setCentroids] = useState<{ x: number; y: number }[]>([])
 
   // Generate random points
   useEffect(() => {
-    const newData = Array.from({ length: config.points }, () => ({
-      x: Math.random() * 780 + 10,
-      y: Math.random() * 580 + 10,
-    }))
+    const random = createRandom(seed, "data")
+    // Imported and generated data are normalized to [-1, 1]; flip y so it points up on screen
+    const newData = dataset
+      ? dataset.points.map((p) => ({ x: ((p.x + 1) / 2) * 780 + 10, y: ((1 - p.y) / 2) * 580 + 10 }))
+      : Array.from({ length: config.points }, () => ({
+          x: random() * 780 + 10,
+          y: random() * 580 + 10,
+        }))
     setData(newData)
-  }, [config.points])
+  }, [config.points, seed, dataset])
 
   // Generate initial centroids
   useEffect(() => {
+    const random = createRandom(seed, "init")
     const newCentroids = Array.from({ length: config.clusters }, () => ({
-      x: Math.random() * 780 + 10,
-      y: Math.random() * 580 + 10,
+      x: random() * 780 + 10,
+      y: random() * 580 + 10,
     }))
     setCentroids(newCentroids)
-  }, [config.clusters])
+  }, [config.clusters, seed])
 
   // K-Means animation logic
   useEffect(() => {
@@ -46,37 +80,15 @@ export default function KMeansVisualizer() {
     let points = [...data]
     let centers = [...centroids]
     let iter = 0
+    const random = createRandom(seed, "reseed")
   
     const step = () => {
-      points = points.map(p => ({ ...p, cluster: undefined }))
-      points = points.map((p) => {
-        let minDist = Infinity
-        let cluster = 0
-        centers.forEach((c, i) => {
-          const dist = (p.x - c.x) ** 2 + (p.y - c.y) ** 2
-          if (dist < minDist) {
-            minDist = dist
-            cluster = i
-          }
-        })
-        return { ...p, cluster }
-      })
-  
-      const sums = Array.from({ length: config.clusters }, () => ({ x: 0, y: 0, count: 0 }))
-      points.forEach((p) => {
-        const cluster = p.cluster ?? 0
-        if (sums[cluster]) {
-          sums[cluster].x += p.x
-          sums[cluster].y += p.y
-          sums[cluster].count++
-        }
-      })
-      
-  
-      centers = sums.map((s) => ({
-        x: s.count ? s.x / s.count : Math.random() * 780 + 10,
-        y: s.count ? s.y / s.count : Math.random() * 580 + 10,
+      const next = kmeansStep(points, centers, () => ({
+        x: random() * 780 + 10,
+        y: random() * 580 + 10,
       }))
+      points = next.points
+      centers = next.centroids
   
       draw(points, centers)
   
@@ -153,12 +165,20 @@ export default function KMeansVisualizer() {
 
       <div className="flex flex-col lg:flex-row gap-6">
         <div className="flex flex-col gap-6">
-          <canvas
-            ref={canvasRef}
-            width={800}
-            height={600}
-            className="rounded border shadow"
-          />
+          <div className="relative w-fit">
+            <canvas
+              ref={canvasRef}
+              width={800}
+              height={600}
+              className="block rounded border shadow"
+            />
+            <PointEditor
+              points={data}
+              onChange={(points) => setData(points.map(({ x, y }) => ({ x, y })))}
+              toCanvas={toCanvas}
+              fromCanvas={fromCanvas}
+            />
+          </div>
 
           <div className="flex flex-col gap-4">
             {[
@@ -183,6 +203,14 @@ export default function KMeansVisualizer() {
                 />
               </div>
             ))}
+            <SeedControl seed={seed} onSeedChange={setSeed} />
+            <DatasetGenerator
+              settings={generatorSettings}
+              onChange={setGeneratorSettings}
+              overridden={!!imported}
+              defaultLabel="Uniform random"
+            />
+            <DatasetImport dataset={imported} onImport={setImported} useLabels={false} />
           </div>
           
         </div>
@@ -1,40 +1,347 @@
 "use client"
 
-import React, { useEffect, useRef, useState } from "react"
+import React, { useEffect, useMemo, useRef, useState } from "react"
+import { useSeed, useUrlState } from "@/hooks/use-url-state"
+import { useGeneratedDataset } from "@/hooks/use-generated-dataset"
 import { Label } from "@/components/ui/label"
 import { Slider } from "@/components/ui/slider"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Button } from "@/components/ui/button"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts"
 import "katex/dist/katex.min.css"
 import { InlineMath } from "react-katex"
+import {
+  classifyKNN,
+  crossValidateK,
+  DISTANCE_METRICS,
+  distanceFunction,
+  knnRegress,
+  knnVoteShares,
+  squaredEuclidean,
+  TIE_BREAKS,
+  weightedVote,
+  type DistanceFn,
+  type DistanceMetric,
+  type TieBreak,
+  type Weighting,
+} from "@/lib/ml/knn"
+import {
+  buildBallTree,
+  buildKDTree,
+  searchIndex,
+  SPATIAL_INDEXES,
+  type Box,
+  type IndexNode,
+  type IndexRegion,
+  type SearchResult,
+} from "@/lib/ml/spatial-index"
+import { createRandom } from "@/lib/ml/random"
+import SeedControl from "@/components/seed-control"
+import DatasetImport from "@/components/dataset-import"
+import DatasetGenerator from "@/components/dataset-generator"
+import type { ImportedDataset } from "@/lib/data/import"
+import type { RandomFn } from "@/lib/ml/types"
+import { generateRegression, REGRESSION_GENERATORS, type RegressionKind } from "@/lib/data/regression"
 
 const colors = ["red", "green", "blue", "orange", "purple", "cyan"]
+// The same colors as RGB, for painting the region map pixel by pixel
+const colorRGB = [
+  [255, 0, 0],
+  [0, 128, 0],
+  [0, 0, 255],
+  [255, 165, 0],
+  [128, 0, 128],
+  [0, 255, 255],
+]
+
+// Largest k on the slider and in the cross-validation sweep
+const MAX_K = 30
+
+// The default data: uniform points labeled by the nearest of a few random seeds per class, so classes
+// form Voronoi cells, with a share of the labels then redrawn at random
+const CELLS_PER_CLASS = 2
+
+const cvChartConfig = {
+  train: { label: "Training", color: "#ff3860" },
+  validation: { label: "Validation", color: "#38bdf8" },
+} satisfies ChartConfig
+
+// Region map cell sizes in pixels, refined coarse to fine so a new k shows up at once
+const REGION_CELLS = [16, 8, 4, 2, 1]
+// Milliseconds of region work per animation frame
+const FRAME_BUDGET = 12
+// Brightness of the region colors over the black background
+const REGION_OPACITY = 0.35
+
+// Cosine distance compares directions as seen from the middle of the canvas
+const CANVAS_CENTER = { x: 400, y: 300 }
+
+const MODES = { classification: "Classification", regression: "Regression (1D)" }
+const WEIGHTINGS: Record<Weighting, string> = { uniform: "Uniform", distance: "Inverse distance" }
+
+// Regression uses the one-feature synthetic datasets, drawn with the target up the canvas
+const REGRESSION_KINDS = Object.fromEntries(
+  Object.entries(REGRESSION_GENERATORS)
+    .filter(([, generator]) => generator.featureNames.length === 1)
+    .map(([kind, generator]) => [kind, generator.name])
+) as Record<RegressionKind, string>
+const REGRESSION_NOISE = 0.15
+// Canvas pixels per unit of target, around the middle of the canvas
+const REGRESSION_SCALE = 180
+// Pixel spacing of the samples along the predicted curve
+const CURVE_STEP = 2
+const CURVE_COLOR = "#38bdf8"
+
+const SEARCHES = { brute: "Brute force", ...SPATIAL_INDEXES }
+const CANVAS_BOUNDS: Box = { x: [0, 800], y: [0, 600] }
+// Milliseconds per step when replaying an index search
+const SEARCH_INTERVAL = 60
+
+function voronoiData(points: number, classes: number, labelNoise: number, random: RandomFn) {
+  const centers = Array.from({ length: classes * CELLS_PER_CLASS }, (_, i) => ({
+    x: random() * 780 + 10,
+    y: random() * 580 + 10,
+    label: i % classes,
+  }))
+  return Array.from({ length: points }, () => {
+    const p = { x: random() * 780 + 10, y: random() * 580 + 10 }
+    const nearest = centers.reduce((best, c) => (squaredEuclidean(c, p) < squaredEuclidean(best, p) ? c : best))
+    const label = random() < labelNoise ? Math.floor(random() * classes) : nearest.label
+    return { ...p, label }
+  })
+}
+
+function metricFormula(metric: DistanceMetric, p: number) {
+  switch (metric) {
+    case "manhattan":
+      return "d = |x_2 - x_1| + |y_2 - y_1|"
+    case "chebyshev":
+      return "d = \\max(|x_2 - x_1|, |y_2 - y_1|)"
+    case "minkowski":
+      return `d = \\left(|x_2 - x_1|^{${p}} + |y_2 - y_1|^{${p}}\\right)^{1/${p}}`
+    case "cosine":
+      return "d = 1 - \\frac{\\mathbf{a} \\cdot \\mathbf{b}}{\\lVert \\mathbf{a} \\rVert \\, \\lVert \\mathbf{b} \\rVert}"
+    default:
+      return "d = \\sqrt{(x_2 - x_1)^2 + (y_2 - y_1)^2}"
+  }
+}
+
+// Outline of everything within `radius` of `center`: the metric's unit ball scaled by the radius,
+// or for cosine the wedge of directions within that angle
+function traceNeighborhood(
+  ctx: CanvasRenderingContext2D,
+  metric: DistanceMetric,
+  distance: DistanceFn,
+  center: { x: number; y: number },
+  radius: number
+) {
+  ctx.beginPath()
+  if (metric === "cosine") {
+    const direction = Math.atan2(center.y - CANVAS_CENTER.y, center.x - CANVAS_CENTER.x)
+    const halfAngle = Math.acos(Math.max(-1, 1 - radius))
+    ctx.moveTo(CANVAS_CENTER.x, CANVAS_CENTER.y)
+    ctx.arc(CANVAS_CENTER.x, CANVAS_CENTER.y, 1000, direction - halfAngle, direction + halfAngle)
+  } else {
+    // Every norm scales linearly, so each direction reaches the boundary at radius / |unit vector|
+    for (let step = 0; step <= 360; step++) {
+      const angle = (step / 360) * 2 * Math.PI
+      const u = { x: Math.cos(angle), y: Math.sin(angle) }
+      const scale = radius / distance(u, { x: 0, y: 0 })
+      ctx.lineTo(center.x + u.x * scale, center.y + u.y * scale)
+    }
+  }
+  ctx.closePath()
+}
 
 export default function KNNVisualizer() {
   const canvasRef = useRef<HTMLCanvasElement>(null)
-  const [config, setConfig] = useState({
+  const regionCanvasRef = useRef<HTMLCanvasElement>(null)
+  // Kept between runs so a new k paints over the old map instead of flashing black
+  const regionImageRef = useRef<ImageData | null>(null)
+  const [config, setConfig] = useUrlState({
     points: 100,
     classes: 3,
     k: 3,
+    metric: "euclidean",
+    // Exponent of the Minkowski distance
+    p: 3,
+    mode: "classification",
+    weighting: "uniform",
+    tieBreak: "nearest",
+    regressionDataset: "sine",
+    search: "brute",
+    // Cross-validation folds
+    folds: 5,
+    // Share of the default data's labels redrawn at random
+    labelNoise: 0.1,
+  }, {
+    points: { min: 10, max: 200, integer: true },
+    classes: { min: 2, max: 6, integer: true },
+    k: { min: 1, max: MAX_K, integer: true },
+    p: { min: 1, max: 10 },
+    folds: { min: 2, max: 10, integer: true },
+    labelNoise: { min: 0, max: 0.5 },
   })
+  const [seed, setSeed] = useSeed()
+  const [imported, setImported] = useState<ImportedDataset | null>(null)
+  const [generatorSettings, setGeneratorSettings, generated] = useGeneratedDataset(seed)
+  // Imported data takes precedence over the shared generator
+  const dataset = imported ?? generated
   const [data, setData] = useState<{ x: number; y: number; label: number }[]>([])
   const [testPoint, setTestPoint] = useState<{ x: number; y: number } | null>(null)
-  const [prediction, setPrediction] = useState<number | null>(null)
-  const [neighbors, setNeighbors] = useState<typeof data>([])
+  // Cell size of the region pass in progress, null once the map is pixel-exact
+  const [regionCell, setRegionCell] = useState<number | null>(null)
+
+  const regression = config.mode === "regression"
+  const metric = (Object.hasOwn(DISTANCE_METRICS, config.metric) ? config.metric : "euclidean") as DistanceMetric
+  const weighting = (Object.hasOwn(WEIGHTINGS, config.weighting) ? config.weighting : "uniform") as Weighting
+  const tieBreak = (Object.hasOwn(TIE_BREAKS, config.tieBreak) ? config.tieBreak : "nearest") as TieBreak
+  const regressionKind = (Object.hasOwn(REGRESSION_KINDS, config.regressionDataset) ? config.regressionDataset : "sine") as RegressionKind
+  const distance = useMemo(() => distanceFunction(metric, config.p, CANVAS_CENTER), [metric, config.p])
+  const knnOptions = useMemo(() => ({ distance, weighting, tieBreak }), [distance, weighting, tieBreak])
+
+  // Index bounds rely on the triangle inequality, which cosine distance breaks, so cosine always scans
+  const searchKind = (Object.hasOwn(SEARCHES, config.search) ? config.search : "brute") as keyof typeof SEARCHES
+  const indexed = !regression && metric !== "cosine" && searchKind !== "brute"
+  const index = useMemo(
+    () => (!indexed ? null : searchKind === "kd" ? buildKDTree(data, CANVAS_BOUNDS) : buildBallTree(data, distance)),
+    [indexed, searchKind, data, distance]
+  )
+  const search = useMemo(
+    () => (index && testPoint ? searchIndex(index, data, testPoint, config.k, distance) : null),
+    [index, testPoint, data, config.k, distance]
+  )
+
+  // Re-classified whenever k, the metric or the voting changes, not just on click
+  const { prediction, neighbors, vote } = useMemo(() => {
+    if (!testPoint || regression) return { prediction: null, neighbors: [], vote: null }
+    if (!search) return classifyKNN(data, testPoint, config.k, knnOptions)
+    const neighbors = search.neighbors.map(({ point, dist }) => ({ ...data[point], dist }))
+    const vote = neighbors.length > 0 ? weightedVote(neighbors, weighting, tieBreak) : null
+    return { prediction: vote?.label ?? null, neighbors, vote }
+  }, [data, testPoint, config.k, knnOptions, regression, search, weighting, tieBreak])
+
+  // Search playback: how many steps are shown; every new search replays from the root
+  const [playback, setPlayback] = useState<{ search: SearchResult; step: number } | null>(null)
+  const searchStep = search ? (playback && playback.search === search ? playback.step : 0) : 0
+  const searching = search !== null && searchStep < search.steps.length
+  const distancesSoFar = search
+    ? search.steps.slice(0, searchStep).filter((step) => step.type === "distance").length
+    : 0
 
   useEffect(() => {
-    const newData = Array.from({ length: config.points }, () => ({
-      x: Math.random() * 780 + 10,
-      y: Math.random() * 580 + 10,
-      label: Math.floor(Math.random() * config.classes),
-    }))
+    if (!search || searchStep >= search.steps.length) return
+    const id = setTimeout(() => setPlayback({ search, step: searchStep + 1 }), SEARCH_INTERVAL)
+    return () => clearTimeout(id)
+  }, [search, searchStep])
+
+  // Regression samples in canvas pixels: the feature in [-1, 1] across, the target up from the middle
+  const regressionPoints = useMemo(() => {
+    if (!regression) return []
+    const { samples } = generateRegression(regressionKind, config.points, REGRESSION_NOISE, createRandom(seed, "regression"))
+    return samples.map((s) => ({ x: ((s.features[0] + 1) / 2) * 780 + 10, y: 300 - s.label * REGRESSION_SCALE }))
+  }, [regression, regressionKind, config.points, seed])
+
+  const curve = useMemo(
+    () =>
+      Array.from({ length: regression ? 800 / CURVE_STEP + 1 : 0 }, (_, i) => {
+        const x = i * CURVE_STEP
+        return { x, y: knnRegress(regressionPoints, x, config.k, weighting).prediction }
+      }),
+    [regression, regressionPoints, config.k, weighting]
+  )
+
+  const fit = useMemo(
+    () => (testPoint && regression ? knnRegress(regressionPoints, testPoint.x, config.k, weighting) : null),
+    [testPoint, regression, regressionPoints, config.k, weighting]
+  )
+
+  useEffect(() => {
+    const random = createRandom(seed, "data")
+    // Imported and generated data are normalized to [-1, 1]; flip y so it points up on screen
+    const newData = dataset
+      ? dataset.points.map((p) => ({
+          x: ((p.x + 1) / 2) * 780 + 10,
+          y: ((1 - p.y) / 2) * 580 + 10,
+          label: p.label % colors.length,
+        }))
+      : voronoiData(config.points, config.classes, config.labelNoise, random)
     setData(newData)
     setTestPoint(null)
-    setPrediction(null)
-    setNeighbors([])
-  }, [config.points, config.classes])
+  }, [config.points, config.classes, config.labelNoise, seed, dataset, config.mode])
+
+  // Accuracy for every k, averaged over the folds; rerun when the data or the voting rules change
+  const crossValidation = useMemo(() => {
+    if (regression || data.length < config.folds) return []
+    // k can't exceed the smallest training fold
+    const maxK = Math.min(MAX_K, data.length - Math.ceil(data.length / config.folds))
+    return crossValidateK(data, maxK, config.folds, knnOptions, createRandom(seed, "folds"))
+  }, [regression, data, config.folds, knnOptions, seed])
+  const bestK = crossValidation.reduce<number | null>(
+    (best, point) => (best === null || point.validation > crossValidation[best - 1].validation ? point.k : best),
+    null
+  )
+
+  // Colors every pixel by the vote shares of its k nearest neighbors, one strip of cells at a time
+  // within a per-frame budget, first in coarse cells and then finer until each pixel is exact
+  useEffect(() => {
+    const canvas = regionCanvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx) return
+    const { width, height } = canvas
+    if (regression) {
+      ctx.clearRect(0, 0, width, height)
+      setRegionCell(null)
+      return
+    }
+    const image = regionImageRef.current ?? ctx.createImageData(width, height)
+    regionImageRef.current = image
+
+    let pass = 0
+    let row = 0
+    let id = 0
+    setRegionCell(REGION_CELLS[0])
+
+    const paintStrip = (cell: number) => {
+      for (let x = 0; x < width; x += cell) {
+        const shares = knnVoteShares(data, { x: x + cell / 2, y: row + cell / 2 }, config.k, colors.length, knnOptions)
+        const rgb = [0, 1, 2].map((c) => shares.reduce((sum, share, label) => sum + share * colorRGB[label][c], 0) * REGION_OPACITY)
+        for (let py = row; py < Math.min(row + cell, height); py++) {
+          for (let px = x; px < Math.min(x + cell, width); px++) {
+            const i = (py * width + px) * 4
+            image.data[i] = rgb[0]
+            image.data[i + 1] = rgb[1]
+            image.data[i + 2] = rgb[2]
+            image.data[i + 3] = 255
+          }
+        }
+      }
+    }
+
+    const tick = () => {
+      const start = performance.now()
+      while (pass < REGION_CELLS.length && performance.now() - start < FRAME_BUDGET) {
+        const cell = REGION_CELLS[pass]
+        paintStrip(cell)
+        row += cell
+        if (row >= height) {
+          row = 0
+          pass++
+          setRegionCell(pass < REGION_CELLS.length ? REGION_CELLS[pass] : null)
+        }
+      }
+      ctx.putImageData(image, 0, 0)
+      if (pass < REGION_CELLS.length) id = requestAnimationFrame(tick)
+    }
+
+    id = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(id)
+  }, [data, config.k, knnOptions, regression])
 
   useEffect(() => {
     draw()
-  }, [data, testPoint, prediction, neighbors])
+  }, [data, testPoint, prediction, neighbors, metric, distance, regression, regressionPoints, curve, fit, index, search, searchStep])
 
   const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
     const rect = canvasRef.current?.getBoundingClientRect()
@@ -42,22 +349,6 @@ export default function KNNVisualizer() {
     const x = e.clientX - rect.left
     const y = e.clientY - rect.top
     setTestPoint({ x, y })
-
-    // Perform KNN
-    const distances = data.map((d) => ({
-      ...d,
-      dist: (d.x - x) ** 2 + (d.y - y) ** 2,
-    }))
-    distances.sort((a, b) => a.dist - b.dist)
-    const topK = distances.slice(0, config.k)
-    setNeighbors(topK)
-
-    const counts: Record<number, number> = {}
-    for (const d of topK) {
-      counts[d.label] = (counts[d.label] || 0) + 1
-    }
-    const predicted = Object.entries(counts).sort((a, b) => b[1] - a[1])[0][0]
-    setPrediction(parseInt(predicted))
   }
 
   const draw = () => {
@@ -66,17 +357,38 @@ export default function KNNVisualizer() {
     if (!canvas || !ctx) return
 
     ctx.clearRect(0, 0, canvas.width, canvas.height)
+    if (regression) {
+      drawRegression(ctx, canvas.width)
+      return
+    }
 
-    // Draw data points
+    // Draw data points, outlined so they stand out from their own region
     for (const p of data) {
       ctx.beginPath()
       ctx.arc(p.x, p.y, 5, 0, 2 * Math.PI)
       ctx.fillStyle = colors[p.label]
       ctx.fill()
+      ctx.strokeStyle = "white"
+      ctx.lineWidth = 1
+      ctx.stroke()
+    }
+
+    if (index) drawSearch(ctx, index)
+
+    // The neighborhood that holds the k nearest points, shaped by the metric
+    if (testPoint && neighbors.length > 0 && !searching) {
+      traceNeighborhood(ctx, metric, distance, testPoint, neighbors[neighbors.length - 1].dist)
+      ctx.fillStyle = "rgba(255, 255, 255, 0.08)"
+      ctx.fill()
+      ctx.setLineDash([6, 4])
+      ctx.strokeStyle = "white"
+      ctx.lineWidth = 1.5
+      ctx.stroke()
+      ctx.setLineDash([])
     }
 
     // Highlight lines to neighbors
-    if (testPoint && neighbors.length > 0) {
+    if (testPoint && neighbors.length > 0 && !searching) {
       ctx.strokeStyle = "#aaa"
       ctx.lineWidth = 1.5
       for (const n of neighbors) {
@@ -91,7 +403,7 @@ export default function KNNVisualizer() {
     if (testPoint) {
       ctx.beginPath()
       ctx.arc(testPoint.x, testPoint.y, 8, 0, 2 * Math.PI)
-      ctx.fillStyle = prediction !== null ? colors[prediction] : "gray"
+      ctx.fillStyle = prediction !== null && !searching ? colors[prediction] : "gray"
       ctx.strokeStyle = "black"
       ctx.lineWidth = 2
       ctx.fill()
@@ -99,25 +411,229 @@ export default function KNNVisualizer() {
     }
   }
 
+  const traceRegion = (ctx: CanvasRenderingContext2D, region: IndexRegion) => {
+    if (region.kind === "box") {
+      ctx.beginPath()
+      ctx.rect(region.box.x[0], region.box.y[0], region.box.x[1] - region.box.x[0], region.box.y[1] - region.box.y[0])
+    } else {
+      traceNeighborhood(ctx, metric, distance, region.center, region.radius)
+    }
+  }
+
+  // Every cell of the index faintly, then the search so far: pruned cells grayed out, visited cells
+  // outlined with the current one in yellow, and a ring on every point whose distance was computed
+  const drawSearch = (ctx: CanvasRenderingContext2D, root: IndexNode) => {
+    ctx.strokeStyle = "#444"
+    ctx.lineWidth = 1
+    const outline = (node: IndexNode) => {
+      traceRegion(ctx, node.region)
+      ctx.stroke()
+      node.children.forEach(outline)
+    }
+    outline(root)
+
+    if (!search) return
+    const shown = search.steps.slice(0, searchStep)
+    shown.forEach((step, i) => {
+      const current = i === shown.length - 1 && searching
+      if (step.type === "prune") {
+        traceRegion(ctx, step.node.region)
+        ctx.fillStyle = "rgba(128, 128, 128, 0.45)"
+        ctx.fill()
+      } else if (step.type === "visit") {
+        traceRegion(ctx, step.node.region)
+        ctx.strokeStyle = current ? "yellow" : "rgba(255, 255, 255, 0.5)"
+        ctx.lineWidth = current ? 2 : 1
+        ctx.stroke()
+      } else {
+        const p = data[step.point]
+        ctx.beginPath()
+        ctx.arc(p.x, p.y, 8, 0, 2 * Math.PI)
+        ctx.strokeStyle = current ? "yellow" : "white"
+        ctx.lineWidth = 1.5
+        ctx.stroke()
+      }
+    })
+  }
+
+  const drawRegression = (ctx: CanvasRenderingContext2D, width: number) => {
+    // Target zero
+    ctx.strokeStyle = "#333"
+    ctx.lineWidth = 1
+    ctx.beginPath()
+    ctx.moveTo(0, 300)
+    ctx.lineTo(width, 300)
+    ctx.stroke()
+
+    for (const p of regressionPoints) {
+      ctx.beginPath()
+      ctx.arc(p.x, p.y, 4, 0, 2 * Math.PI)
+      ctx.fillStyle = "#ccc"
+      ctx.fill()
+    }
+
+    // The prediction at every x for the chosen k and weighting
+    ctx.strokeStyle = CURVE_COLOR
+    ctx.lineWidth = 2
+    ctx.beginPath()
+    for (const { x, y } of curve) {
+      if (y !== null) ctx.lineTo(x, y)
+    }
+    ctx.stroke()
+
+    if (!testPoint || !fit || fit.prediction === null) return
+    const predicted = fit.prediction
+
+    ctx.setLineDash([6, 4])
+    ctx.strokeStyle = "white"
+    ctx.lineWidth = 1
+    ctx.beginPath()
+    ctx.moveTo(testPoint.x, 0)
+    ctx.lineTo(testPoint.x, 600)
+    ctx.stroke()
+    ctx.setLineDash([])
+
+    ctx.strokeStyle = "#aaa"
+    ctx.lineWidth = 1.5
+    for (const n of fit.neighbors) {
+      ctx.beginPath()
+      ctx.moveTo(testPoint.x, predicted)
+      ctx.lineTo(n.x, n.y)
+      ctx.stroke()
+      ctx.beginPath()
+      ctx.arc(n.x, n.y, 6, 0, 2 * Math.PI)
+      ctx.strokeStyle = "yellow"
+      ctx.stroke()
+      ctx.strokeStyle = "#aaa"
+    }
+
+    ctx.beginPath()
+    ctx.arc(testPoint.x, predicted, 8, 0, 2 * Math.PI)
+    ctx.fillStyle = CURVE_COLOR
+    ctx.strokeStyle = "black"
+    ctx.lineWidth = 2
+    ctx.fill()
+    ctx.stroke()
+  }
+
   const handleSliderChange = (key: keyof typeof config, value: number) => {
     setConfig((c) => ({ ...c, [key]: value }))
   }
 
+  const selectControl = (key: keyof typeof config, label: string, value: string, options: Record<string, string>) => (
+    <>
+      <div className="flex justify-between items-center">
+        <Label className="text-xl">{label}</Label>
+      </div>
+      <Select value={value} onValueChange={(v) => setConfig((c) => ({ ...c, [key]: v }))}>
+        <SelectTrigger className="h-9">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(options).map(([option, name]) => (
+            <SelectItem key={option} value={option}>
+              {name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </>
+  )
+
+  // Class weights in label order, as fractions of the total for the breakdown bars
+  const voteTotal = vote ? Object.values(vote.weights).reduce((a, b) => a + b, 0) : 0
+  const formatWeight = (w: number) => (weighting === "uniform" ? String(w) : w.toFixed(3))
+  const toTarget = (y: number) => (300 - y) / REGRESSION_SCALE
+
   return (
     <div className="flex flex-col gap-6">
       <h1 className="text-4xl font-bold">KNN Visualizer</h1>
       <p className="text-medium text-muted-foreground">
-        Click anywhere on the canvas to classify a new point using the KNN algorithm.
+        {regression
+          ? "Click anywhere on the canvas to predict the target at that x. The blue curve is the prediction at every x for the chosen k and weighting."
+          : "Click anywhere on the canvas to classify a new point using the KNN algorithm. The background shows what every location would be classified as, blending the class colors by their share of the k votes."}
       </p>
       <div className="flex flex-col md:flex-row gap-8">
-        <canvas
-          ref={canvasRef}
-          width={800}
-          height={600}
-          className="rounded-lg border bg-black"
-          onClick={handleCanvasClick}
-        />
+        <div className="shrink-0">
+          <div className="relative" style={{ width: 800, height: 600 }}>
+            <canvas ref={regionCanvasRef} width={800} height={600} className="absolute inset-0 rounded-lg bg-black" />
+            <canvas
+              ref={canvasRef}
+              width={800}
+              height={600}
+              className="absolute inset-0 rounded-lg border"
+              onClick={handleCanvasClick}
+            />
+          </div>
+          <p className="mt-2 h-5 text-sm text-muted-foreground">
+            {regionCell !== null && `Refining decision regions (${regionCell}px cells)…`}
+          </p>
+          {search && (
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>
+                {SEARCHES[searchKind]}: {distancesSoFar} distance computations so far, against {data.length} for a brute-force
+                scan
+              </span>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => setPlayback({ search, step: 0 })}>
+                  Replay
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!searching}
+                  onClick={() => setPlayback({ search, step: search.steps.length })}
+                >
+                  Skip
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
         <div className="text-sm space-y-4 w-full md:w-72">
+        {vote && !searching && (
+          <div>
+            <h2 className="text-2xl font-bold text-white">Vote Breakdown</h2>
+            <ul className="mt-2 space-y-2">
+              {Object.entries(vote.weights).map(([label, w]) => (
+                <li key={label} className="space-y-1">
+                  <div className="flex justify-between text-white">
+                    <span className={Number(label) === vote.label ? "font-bold capitalize" : "capitalize"}>
+                      {imported?.classes[Number(label)] ?? colors[Number(label)]}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {formatWeight(w)} ({Math.round((w / voteTotal) * 100)}%)
+                    </span>
+                  </div>
+                  <div className="h-2 rounded-sm bg-neutral-800">
+                    <div className="h-2 rounded-sm" style={{ width: `${(w / voteTotal) * 100}%`, background: colors[Number(label)] }} />
+                  </div>
+                </li>
+              ))}
+            </ul>
+            {vote.tied.length > 1 && (
+              <p className="text-muted-foreground mt-2">
+                Tie between {vote.tied.map((label) => imported?.classes[label] ?? colors[label]).join(" and ")}, settled by{" "}
+                {TIE_BREAKS[tieBreak].toLowerCase()}: <span className="capitalize">{imported?.classes[vote.label] ?? colors[vote.label]}</span>.
+              </p>
+            )}
+          </div>
+        )}
+        {fit && fit.prediction !== null && (
+          <div>
+            <h2 className="text-2xl font-bold text-white">Prediction</h2>
+            <p className="text-lg text-white mt-2">
+              <InlineMath math={`\\hat{y} = ${toTarget(fit.prediction).toFixed(3)}`} />
+            </p>
+            <ul className="mt-2 text-muted-foreground">
+              {fit.neighbors.map((n, i) => (
+                <li key={i}>
+                  target {toTarget(n.y).toFixed(2)} · weight {Math.round((fit.weights[i] / fit.weights.reduce((a, b) => a + b, 0)) * 100)}%
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
         <div>
   {/* Top-level section title */}
   <h2 className="text-2xl font-bold text-white">KNN Algorithm</h2>
@@ -133,10 +649,25 @@ export default function KNNVisualizer() {
   {/* Slightly smaller section title */}
   <h2 className="text-xl font-bold text-white mt-6">Key Formula</h2>
   <div className="mt-2">
-    <p className="text-lg font-semibold text-white">
-      <span className="font-bold">Distance:</span><br /><br/>
-      <InlineMath math="d = \sqrt{(x_2 - x_1)^2 + (y_2 - y_1)^2}" />
+    {!regression && (
+      <p className="text-lg font-semibold text-white">
+        <span className="font-bold">{DISTANCE_METRICS[metric]} distance:</span><br /><br/>
+        <InlineMath math={metricFormula(metric, config.p)} />
+      </p>
+    )}
+    <p className="text-lg font-semibold text-white mt-4">
+      <span className="font-bold">{regression ? "Prediction" : "Vote"}:</span><br /><br/>
+      <InlineMath
+        math={regression ? "\\hat{y} = \\frac{\\sum_i w_i y_i}{\\sum_i w_i}" : "\\hat{c} = \\arg\\max_c \\sum_{i : y_i = c} w_i"}
+      />
+      <br /><br />
+      <InlineMath math={weighting === "uniform" ? "w_i = 1" : "w_i = 1 / d_i"} />
     </p>
+    {!regression && metric === "cosine" && (
+      <p className="text-muted-foreground mt-2">
+        Vectors <InlineMath math="\mathbf{a}, \mathbf{b}" /> point from the center of the canvas, so the neighborhood is a wedge of directions.
+      </p>
+    )}
   </div>
 </div>
 
@@ -154,8 +685,70 @@ export default function KNNVisualizer() {
         </div>
       </div>
 
+      {!regression && crossValidation.length > 0 && (
+        <div className="mt-6 space-y-3" style={{ width: 800 }}>
+          <h2 className="text-2xl font-bold text-white">Choosing k</h2>
+          <p className="text-sm text-muted-foreground">
+            {config.folds}-fold cross-validation: each fold is held out in turn and classified by the rest. Small k
+            fits the training points perfectly but follows their noise; large k smooths the boundary until it washes
+            out. Click the chart to set k.
+          </p>
+          <ChartContainer config={cvChartConfig} className="aspect-auto h-[240px] w-full cursor-pointer">
+            <LineChart
+              data={crossValidation}
+              margin={{ left: 12, right: 12 }}
+              onClick={(state) => state?.activeLabel !== undefined && handleSliderChange("k", Number(state.activeLabel))}
+            >
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="k" type="number" domain={[1, crossValidation.length]} tickLine={false} axisLine={false} />
+              <YAxis
+                domain={[0, 1]}
+                tickFormatter={(v) => `${Math.round(v * 100)}%`}
+                tickLine={false}
+                axisLine={false}
+                width={40}
+              />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => `k = ${payload[0]?.payload.k}`}
+                    formatter={(value, name) => `${cvChartConfig[name as keyof typeof cvChartConfig].label}: ${(Number(value) * 100).toFixed(1)}%`}
+                  />
+                }
+              />
+              <ReferenceLine x={config.k} stroke="white" strokeDasharray="4 4" />
+              {bestK !== null && bestK !== config.k && <ReferenceLine x={bestK} stroke="var(--color-validation)" strokeDasharray="2 2" />}
+              <Line dataKey="train" type="monotone" stroke="var(--color-train)" strokeWidth={2} dot={false} isAnimationActive={false} />
+              <Line dataKey="validation" type="monotone" stroke="var(--color-validation)" strokeWidth={2} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ChartContainer>
+          {bestK !== null && (
+            <p className="text-sm text-muted-foreground">
+              Best validation accuracy: {(crossValidation[bestK - 1].validation * 100).toFixed(1)}% at k = {bestK}
+              {bestK !== config.k && config.k <= crossValidation.length && (
+                <> (k = {config.k} scores {(crossValidation[config.k - 1].validation * 100).toFixed(1)}%)</>
+              )}
+            </p>
+          )}
+          <div className="flex justify-between items-center">
+            <Label className="text-xl">Folds</Label>
+            <span className="text-lg text-muted-foreground">{config.folds}</span>
+          </div>
+          <Slider
+            min={2}
+            max={10}
+            value={[config.folds]}
+            onValueChange={([v]) => handleSliderChange("folds", v)}
+            className="w-full"
+          />
+        </div>
+      )}
+
       {/* Sliders */}
       <div className="flex flex-col gap-3 mt-6" style={{ width: 800 }}>
+  {selectControl("mode", "Mode", config.mode, MODES)}
+  {regression && selectControl("regressionDataset", "Dataset", regressionKind, REGRESSION_KINDS)}
+
   <div className="flex justify-between items-center">
     <Label className="text-xl">Points</Label>
     <span className="text-lg text-muted-foreground">{config.points}</span>
@@ -168,17 +761,38 @@ export default function KNNVisualizer() {
     className="w-full"
   />
 
-  <div className="flex justify-between items-center">
-    <Label className="text-xl">Classes</Label>
-    <span className="text-lg text-muted-foreground">{config.classes}</span>
-  </div>
-  <Slider
-    min={2}
-    max={6}
-    value={[config.classes]}
-    onValueChange={([v]) => handleSliderChange("classes", v)}
-    className="w-full"
-  />
+  {!regression && !dataset && (
+    <>
+      <div className="flex justify-between items-center">
+        <Label className="text-xl">Classes</Label>
+        <span className="text-lg text-muted-foreground">{config.classes}</span>
+      </div>
+      <Slider
+        min={2}
+        max={6}
+        value={[config.classes]}
+        onValueChange={([v]) => handleSliderChange("classes", v)}
+        className="w-full"
+      />
+    </>
+  )}
+
+  {!regression && !dataset && (
+    <>
+      <div className="flex justify-between items-center">
+        <Label className="text-xl">Label Noise</Label>
+        <span className="text-lg text-muted-foreground">{Math.round(config.labelNoise * 100)}%</span>
+      </div>
+      <Slider
+        min={0}
+        max={0.5}
+        step={0.05}
+        value={[config.labelNoise]}
+        onValueChange={([v]) => handleSliderChange("labelNoise", v)}
+        className="w-full"
+      />
+    </>
+  )}
 
   <div className="flex justify-between items-center">
     <Label className="text-xl">K Value</Label>
@@ -186,11 +800,59 @@ export default function KNNVisualizer() {
   </div>
   <Slider
     min={1}
-    max={10}
+    max={MAX_K}
     value={[config.k]}
     onValueChange={([v]) => handleSliderChange("k", v)}
     className="w-full"
   />
+
+  {selectControl("weighting", "Weighting", weighting, WEIGHTINGS)}
+  {!regression && selectControl("tieBreak", "Tie-Break", tieBreak, TIE_BREAKS)}
+
+  {regression ? (
+    <p className="text-sm text-muted-foreground">With a single feature every metric measures the same |x₂ − x₁|.</p>
+  ) : (
+    selectControl("metric", "Distance Metric", metric, DISTANCE_METRICS)
+  )}
+
+  {!regression && selectControl("search", "Neighbor Search", searchKind, SEARCHES)}
+  {!regression && searchKind !== "brute" && metric === "cosine" && (
+    <p className="text-sm text-muted-foreground">
+      Cosine distance breaks the triangle inequality the index relies on to prune, so it always scans every point.
+    </p>
+  )}
+
+  {!regression && metric === "minkowski" && (
+    <>
+      <div className="flex justify-between items-center">
+        <Label className="text-xl">Minkowski p</Label>
+        <span className="text-lg text-muted-foreground">{config.p}</span>
+      </div>
+      <Slider
+        min={1}
+        max={10}
+        step={0.5}
+        value={[config.p]}
+        onValueChange={([v]) => handleSliderChange("p", v)}
+        className="w-full"
+      />
+    </>
+  )}
+
+  <SeedControl seed={seed} onSeedChange={setSeed} />
+
+  {!regression && (
+    <>
+      <DatasetGenerator
+        settings={generatorSettings}
+        onChange={setGeneratorSettings}
+        overridden={!!imported}
+        defaultLabel="Voronoi cells"
+      />
+
+      <DatasetImport dataset={imported} onImport={setImported} />
+    </>
+  )}
 </div>
 
 
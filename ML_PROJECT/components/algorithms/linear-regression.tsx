@@ -1,7 +1,30 @@
 "use client"
 
-import React, { useEffect, useRef, useState } from "react";
+import React, { useEffect, useMemo, useRef } from "react";
+import { useSeed, useUrlState } from "@/hooks/use-url-state";
+import { useEditablePoints } from "@/hooks/use-editable-points";
+import { useGradientDescent } from "@/hooks/use-gradient-descent";
 import { BlockMath } from "react-katex"; // Import BlockMath from react-katex
+import { linearRegressionStep, meanSquaredError, predictLinear } from "@/lib/ml/linear-regression";
+import { createRandom } from "@/lib/ml/random";
+import SeedControl from "@/components/seed-control";
+import PointEditor, { type CanvasSize } from "@/components/point-editor";
+import type { Point } from "@/lib/ml/types";
+
+// Canvas attribute size; the element is stretched to the column width by CSS
+const CANVAS_WIDTH = 1000;
+const CANVAS_HEIGHT = 600;
+const MARGIN = 40;
+
+// Same mapping as renderLinearRegression: x in [-1, 1], y = 0 on the horizontal midline
+const toCanvas = (p: Point, { width, height }: CanvasSize) => ({
+  x: (MARGIN + ((p.x + 1) / 2) * (CANVAS_WIDTH - 2 * MARGIN)) * (width / CANVAS_WIDTH),
+  y: (CANVAS_HEIGHT / 2 - (p.y * (CANVAS_HEIGHT - 2 * MARGIN)) / 2) * (height / CANVAS_HEIGHT),
+});
+const fromCanvas = (p: Point, { width, height }: CanvasSize) => ({
+  x: (((p.x * CANVAS_WIDTH) / width - MARGIN) / (CANVAS_WIDTH - 2 * MARGIN)) * 2 - 1,
+  y: ((CANVAS_HEIGHT / 2 - (p.y * CANVAS_HEIGHT) / height) * 2) / (CANVAS_HEIGHT - 2 * MARGIN),
+});
 
 type Params = {
   learningRate: number;
@@ -10,15 +33,34 @@ type Params = {
 };
 
 export default function LinearRegressionPage() {
-  const [params, setParams] = useState<Params>({
+  const [params, setParams] = useUrlState<Params>({
     learningRate: 0.1,
     iterations: 100,
     noise: 0.2,
+  }, {
+    learningRate: { min: 0.01, max: 0.5 },
+    iterations: { min: 10, max: 200, integer: true },
+    noise: { min: 0, max: 1 },
   });
+  const [seed, setSeed] = useSeed();
+
+  const basePoints = useMemo(() => {
+    const random = createRandom(seed, "data");
+    const points: Point[] = [];
+    for (let i = 0; i < 100; i++) {
+      const x = random() * 2 - 1;
+      const y = 2 * x + 1 + (random() * 2 - 1) * params.noise;
+      points.push({ x, y });
+    }
+    return points;
+  }, [seed, params.noise]);
+  const [points, setPoints] = useEditablePoints(basePoints);
+  const { model, iteration, isAnimating, toggleAnimation } = useGradientDescent(
+    points,
+    { learningRate: params.learningRate, iterations: params.iterations },
+    linearRegressionStep
+  );
 
-  const [isAnimating, setIsAnimating] = useState(false);
-  const [frame, setFrame] = useState(0);
-  const reqRef = useRef<number | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
 
   const paramControls = [
@@ -34,34 +76,16 @@ export default function LinearRegressionPage() {
     if (!c) return;
     const ctx = c.getContext("2d");
     if (!ctx) return;
-    renderLinearRegression(ctx, c.width, c.height, params, frame);
-  }, [params, frame]);
-
-  useEffect(() => {
-    if (!isAnimating || frame >= params.iterations) {
-      if (reqRef.current !== null) cancelAnimationFrame(reqRef.current);
-      return;
-    }
-
-    const loop = () => {
-      setFrame((f) => f + 1);
-      reqRef.current = requestAnimationFrame(loop);
-    };
-
-    reqRef.current = requestAnimationFrame(loop);
-    return () => {
-      if (reqRef.current !== null) cancelAnimationFrame(reqRef.current);
-    };
-  }, [isAnimating, frame, params.iterations]);
+    renderLinearRegression(ctx, c.width, c.height, params);
+  }, [params, points, model, iteration]);
 
   const renderLinearRegression = (
     ctx: CanvasRenderingContext2D,
     width: number,
     height: number,
-    params: Params,
-    frame = 0
+    params: Params
   ) => {
-    const { learningRate, iterations, noise } = params;
+    const { iterations } = params;
 
     ctx.clearRect(0, 0, width, height);
     ctx.fillStyle = "#000";
@@ -71,34 +95,8 @@ export default function LinearRegressionPage() {
     const plotWidth = width - margin * 2;
     const plotHeight = height - margin * 2;
 
-    const points: { x: number; y: number }[] = [];
-    for (let i = 0; i < 100; i++) {
-      const x = Math.random() * 2 - 1;
-      const y = 2 * x + 1 + (Math.random() * 2 - 1) * noise;
-      points.push({ x, y });
-    }
-
-    // Gradient descent
-    let w = 0, b = 0;
-    const currentIteration = Math.min(
-      iterations,
-      Math.floor((frame / 100) * iterations) + 1
-    );
-
-    for (let i = 0; i < currentIteration; i++) {
-      let dw = 0, db = 0;
-      for (const pt of points) {
-        const yHat = w * pt.x + b;
-        const error = yHat - pt.y;
-        dw += pt.x * error;
-        db += error;
-      }
-      dw /= points.length;
-      db /= points.length;
-
-      w -= learningRate * dw;
-      b -= learningRate * db;
-    }
+    // Model trained so far (see useGradientDescent)
+    const { w, b } = model;
 
     // Draw axes
     ctx.strokeStyle = "#666";
@@ -116,7 +114,7 @@ export default function LinearRegressionPage() {
     ctx.beginPath();
     for (let px = 0; px <= plotWidth; px += 1) {
       const x = (px / plotWidth) * 2 - 1;
-      const y = w * x + b;
+      const y = predictLinear(model, x);
       const cx = margin + px;
       const cy = height / 2 - y * plotHeight / 2;
       px === 0 ? ctx.moveTo(cx, cy) : ctx.lineTo(cx, cy);
@@ -134,17 +132,13 @@ export default function LinearRegressionPage() {
     }
 
     // MSE
-    const mse =
-      points.reduce((sum, pt) => {
-        const pred = w * pt.x + b;
-        return sum + (pt.y - pred) ** 2;
-      }, 0) / points.length;
+    const mse = meanSquaredError(model, points);
 
     ctx.fillStyle = "#fff";
     ctx.font = "14px sans-serif";
     ctx.fillText(`Weight: ${w.toFixed(3)}`, margin + 10, margin + 20);
     ctx.fillText(`Bias: ${b.toFixed(3)}`, margin + 10, margin + 40);
-    ctx.fillText(`Iterations: ${currentIteration}/${iterations}`, margin + 10, margin + 60);
+    ctx.fillText(`Iterations: ${iteration}/${iterations}`, margin + 10, margin + 60);
     ctx.fillText(`MSE: ${mse.toFixed(3)}`, margin + 10, margin + 80);
   };
 
@@ -157,19 +151,22 @@ export default function LinearRegressionPage() {
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         <div className="lg:col-span-2">
-          <canvas
-            ref={canvasRef}
-            width={1000} // Increased canvas width
-            height={600} // Increased canvas height
-            className="w-full border border-gray-700"
-          />
+          <div className="relative">
+            <canvas
+              ref={canvasRef}
+              width={CANVAS_WIDTH}
+              height={CANVAS_HEIGHT}
+              className="block w-full border border-gray-700"
+            />
+            <PointEditor
+              points={points}
+              onChange={(edited) => setPoints(edited.map(({ x, y }) => ({ x, y })))}
+              toCanvas={toCanvas}
+              fromCanvas={fromCanvas}
+            />
+          </div>
           <button
-            onClick={() => {
-              setIsAnimating((a) => {
-                if (!a) setFrame(0);
-                return !a;
-              });
-            }}
+            onClick={toggleAnimation}
             className="mt-2 px-4 py-2 bg-black text-white rounded border border-white hover:bg-white hover:text-black transition"
           >
             {isAnimating ? "Pause" : "Animate"}
@@ -203,6 +200,8 @@ export default function LinearRegressionPage() {
                 </div>
               );
             })}
+
+            <SeedControl seed={seed} onSeedChange={setSeed} />
           </section>
         </div>
 
@@ -1,8 +1,37 @@
 "use client";
 
-import React, { useEffect, useRef, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useSeed, useUrlState } from "@/hooks/use-url-state";
+import { useEditablePoints } from "@/hooks/use-editable-points";
+import { useGradientDescent } from "@/hooks/use-gradient-descent";
 import "katex/dist/katex.min.css";
 import { BlockMath } from "react-katex";
+import {
+  classificationErrorRate,
+  logisticRegressionStep,
+  predictProbability,
+} from "@/lib/ml/logistic-regression";
+import { createRandom } from "@/lib/ml/random";
+import SeedControl from "@/components/seed-control";
+import DatasetImport from "@/components/dataset-import";
+import PointEditor, { type CanvasSize } from "@/components/point-editor";
+import type { ImportedDataset } from "@/lib/data/import";
+import type { Point } from "@/lib/ml/types";
+
+// Canvas attribute size; the element is stretched to the column width by CSS
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 500;
+const MARGIN = 40;
+
+// Same mapping as renderLogisticRegression: x in [-1, 1], class 0/1 at the bottom/top of the plot
+const toCanvas = (p: Point, { width, height }: CanvasSize) => ({
+  x: (MARGIN + ((p.x + 1) / 2) * (CANVAS_WIDTH - 2 * MARGIN)) * (width / CANVAS_WIDTH),
+  y: (CANVAS_HEIGHT - MARGIN - p.y * (CANVAS_HEIGHT - 2 * MARGIN)) * (height / CANVAS_HEIGHT),
+});
+const fromCanvas = (p: Point, { width, height }: CanvasSize) => ({
+  x: (((p.x * CANVAS_WIDTH) / width - MARGIN) / (CANVAS_WIDTH - 2 * MARGIN)) * 2 - 1,
+  y: (CANVAS_HEIGHT - MARGIN - (p.y * CANVAS_HEIGHT) / height) / (CANVAS_HEIGHT - 2 * MARGIN),
+});
 
 // 1) Define a Params type
 type Params = {
@@ -13,18 +42,43 @@ type Params = {
 };
 
 export default function LogisticRegressionPage() {
-  // 2) Use that type in your useState
-  const [params, setParams] = useState<Params>({
+  // 2) Use that type in your useUrlState
+  const [params, setParams] = useUrlState<Params>({
     learningRate: 0.1,
     iterations: 100,
     decisionBoundary: 0.5,
     noise: 0.2,
+  }, {
+    learningRate: { min: 0.01, max: 0.5 },
+    iterations: { min: 10, max: 200, integer: true },
+    decisionBoundary: { min: 0.1, max: 0.9 },
+    noise: { min: 0, max: 0.5 },
   });
-  const [isAnimating, setIsAnimating] = useState(false);
-  const [frame, setFrame] = useState(0);
+  const [seed, setSeed] = useSeed();
+  const [imported, setImported] = useState<ImportedDataset | null>(null);
 
-  // 3) requestAnimationFrame ref
-  const reqRef = useRef<number | null>(null);
+  // Generate synthetic data (imported data: x column vs. first class / rest)
+  const basePoints = useMemo(() => {
+    const random = createRandom(seed, "data");
+    const points: Point[] = imported
+      ? imported.points.map((p) => ({ x: p.x, y: p.label === 0 ? 0 : 1 }))
+      : [];
+    for (let i = 0; i < (imported ? 0 : 100); i++) {
+      const x = random() * 2 - 1;
+      const trueProb = 1 / (1 + Math.exp(-5 * x));
+      const noisyProb = Math.min(1,
+        Math.max(0, trueProb + (random() * 2 - 1) * params.noise)
+      );
+      points.push({ x, y: noisyProb > 0.5 ? 1 : 0 });
+    }
+    return points;
+  }, [seed, params.noise, imported]);
+  const [points, setPoints] = useEditablePoints(basePoints);
+  const { model, iteration, isAnimating, toggleAnimation } = useGradientDescent(
+    points,
+    { learningRate: params.learningRate, iterations: params.iterations },
+    logisticRegressionStep
+  );
 
   // 4) paramControls now uses keyof Params
   const paramControls: {
@@ -45,10 +99,9 @@ export default function LogisticRegressionPage() {
     ctx: CanvasRenderingContext2D,
     width: number,
     height: number,
-    params: Params,
-    frame = 0
+    params: Params
   ) => {
-    const { learningRate, iterations, decisionBoundary, noise } = params;
+    const { iterations, decisionBoundary } = params;
 
     // Clear & background
     ctx.clearRect(0, 0, width, height);
@@ -59,39 +112,8 @@ export default function LogisticRegressionPage() {
     const plotWidth = width - 2 * margin;
     const plotHeight = height - 2 * margin;
 
-    // Generate synthetic data
-    const points: { x: number; y: number }[] = [];
-    for (let i = 0; i < 100; i++) {
-      const x = Math.random() * 2 - 1;
-      const trueProb = 1 / (1 + Math.exp(-5 * x));
-      const noisyProb = Math.min(1,
-        Math.max(0, trueProb + (Math.random() * 2 - 1) * noise)
-      );
-      points.push({ x, y: noisyProb > 0.5 ? 1 : 0 });
-    }
-
-    // Train logistic model (gradient descent)
-    let w = 0, b = 0;
-    const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
-    const currentIteration = Math.min(
-      iterations,
-      Math.floor((frame / 100) * iterations) + 1
-    );
-
-    for (let i = 0; i < currentIteration; i++) {
-      let dw = 0, db = 0;
-      for (const pt of points) {
-        const z = w * pt.x + b;
-        const a = sigmoid(z);
-        const dz = a - pt.y;
-        dw += pt.x * dz;
-        db += dz;
-      }
-      dw /= points.length;
-      db /= points.length;
-      w -= learningRate * dw;
-      b -= learningRate * db;
-    }
+    // Model trained so far (see useGradientDescent)
+    const { w, b } = model;
 
     // Draw axes
     ctx.strokeStyle = "#666";
@@ -130,7 +152,7 @@ export default function LogisticRegressionPage() {
     ctx.beginPath();
     for (let px = 0; px <= plotWidth; px += 2) {
       const x = (px / plotWidth) * 2 - 1;
-      const y = sigmoid(w * x + b);
+      const y = predictProbability(model, x);
       const cx = margin + px;
       const cy = height - margin - y * plotHeight;
       px === 0 ? ctx.moveTo(cx, cy) : ctx.lineTo(cx, cy);
@@ -148,14 +170,7 @@ export default function LogisticRegressionPage() {
     }
 
     // Compute error rate
-    const preds = points.map((pt) =>
-      sigmoid(w * pt.x + b) > decisionBoundary ? 1 : 0
-    );
-    const errors = preds.reduce<number>(
-      (acc, p, i) => acc + (p !== points[i].y ? 1 : 0),
-      0
-    );
-    const errorRate = errors / points.length;
+    const errorRate = classificationErrorRate(model, points, decisionBoundary);
 
     // Draw stats (no literal $)
     ctx.fillStyle = "#fff";
@@ -163,7 +178,7 @@ export default function LogisticRegressionPage() {
     ctx.textAlign = "left";
     ctx.fillText(`Weight: ${w.toFixed(3)}`, margin + 10, margin + 20);
     ctx.fillText(`Bias: ${b.toFixed(3)}`, margin + 10, margin + 40);
-    ctx.fillText(`Iterations: ${currentIteration}/${iterations}`, margin + 10, margin + 60);
+    ctx.fillText(`Iterations: ${iteration}/${iterations}`, margin + 10, margin + 60);
     ctx.fillText(`Error Rate: ${(errorRate * 100).toFixed(1)}%`, margin + 10, margin + 80);
   };
 
@@ -176,25 +191,8 @@ export default function LogisticRegressionPage() {
     if (!c) return;
     const ctx = c.getContext("2d");
     if (!ctx) return;
-    renderLogisticRegression(ctx, c.width, c.height, params, frame);
-  }, [params, frame]);
-
-  // Animation loop with stopping condition
-  useEffect(() => {
-    if (!isAnimating || frame >= params.iterations) {
-      if (reqRef.current !== null) cancelAnimationFrame(reqRef.current);
-      return;
-    }
-
-    const loop = () => {
-      setFrame((f) => f + 1);
-      reqRef.current = requestAnimationFrame(loop);
-    };
-    reqRef.current = requestAnimationFrame(loop);
-    return () => {
-      if (reqRef.current !== null) cancelAnimationFrame(reqRef.current);
-    };
-  }, [isAnimating, frame, params.iterations]);
+    renderLogisticRegression(ctx, c.width, c.height, params);
+  }, [params, points, model, iteration]);
 
   return (
     <div className="space-y-8 p-4 bg-black text-white">
@@ -205,20 +203,25 @@ export default function LogisticRegressionPage() {
   
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         <div className="lg:col-span-2">
-          <canvas
-            ref={canvasRef}
-            width={800}
-            height={500}
-            className="w-full border border-gray-700"
-          />
+          <div className="relative">
+            <canvas
+              ref={canvasRef}
+              width={CANVAS_WIDTH}
+              height={CANVAS_HEIGHT}
+              className="block w-full border border-gray-700"
+            />
+            {/* Labels are the y values here, so moving a point only shifts it along x */}
+            <PointEditor
+              points={points.map((p) => ({ ...p, label: p.y }))}
+              onChange={(edited) => setPoints(edited.map(({ x, label }) => ({ x, y: label ?? 0 })))}
+              toCanvas={toCanvas}
+              fromCanvas={fromCanvas}
+              palette={["#f87171", "#4ade80"]}
+            />
+          </div>
   
           <button
-            onClick={() => {
-              setIsAnimating((a) => {
-                if (!a) setFrame(0); // reset frame only when starting animation
-                return !a;
-              });
-            }}
+            onClick={toggleAnimation}
             className="mt-2 px-4 py-2 bg-black text-white rounded border border-white hover:bg-white hover:text-black transition"
           >
             {isAnimating ? "Pause" : "Animate"}
@@ -257,7 +260,13 @@ export default function LogisticRegressionPage() {
                 </div>
               );
             })}
+
+            <SeedControl seed={seed} onSeedChange={setSeed} />
           </section>
+
+          <div className="controls-section">
+            <DatasetImport dataset={imported} onImport={setImported} dimensions={1} />
+          </div>
         </div>
   
         <div className="space-y-6">
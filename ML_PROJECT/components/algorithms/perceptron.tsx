@@ -1,28 +1,36 @@
 "use client";
 
-import { useEffect, useRef, useState, useMemo } from "react";
+import { useEffect, useRef, useMemo, useState } from "react";
+import { useSeed, useUrlState } from "@/hooks/use-url-state";
+import { useGeneratedDataset } from "@/hooks/use-generated-dataset";
 import { BlockMath } from "react-katex";
 import "katex/dist/katex.min.css";
+import {
+  createNetwork,
+  meanSquaredLoss,
+  networkAccuracy,
+  trainEpoch,
+  type ActivationName,
+  type Layer,
+  type NetworkSample,
+} from "@/lib/ml/perceptron";
+import { createRandom } from "@/lib/ml/random";
+import SeedControl from "@/components/seed-control";
+import DatasetImport from "@/components/dataset-import";
+import DatasetGenerator from "@/components/dataset-generator";
+import type { ImportedDataset } from "@/lib/data/import";
 
-type Layer = { weights: number[][]; biases: number[] };
-
-const activations = {
+const activations: Record<ActivationName, { label: string; formula: string }> = {
   sigmoid: {
     label: "Sigmoid",
-    func: (x: number) => 1 / (1 + Math.exp(-x)),
-    derivative: (y: number) => y * (1 - y),
     formula: "\\sigma(x) = \\frac{1}{1 + e^{-x}}",
   },
   relu: {
     label: "ReLU",
-    func: (x: number) => Math.max(0, x),
-    derivative: (y: number) => (y > 0 ? 1 : 0),
     formula: "\\text{ReLU}(x) = \\max(0, x)",
   },
   identity: {
     label: "Identity",
-    func: (x: number) => x,
-    derivative: (_: number) => 1,
     formula: "\\phi(x) = x",
   },
 };
@@ -31,55 +39,45 @@ export default function PerceptronVisualizer() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animRef = useRef<number>();
   const networkRef = useRef<Layer[]>([]);
-  const [config, setConfig] = useState({
+  const [config, setConfig] = useUrlState({
     hiddenLayers: 2,
     iterations: 10,
     activation: "sigmoid",
     learningRate: 0.1,
     outputNodes: 1,
+  }, {
+    hiddenLayers: { min: 1, max: 5, integer: true },
+    iterations: { min: 1, max: 20, integer: true },
+    activation: Object.keys(activations),
+    learningRate: { min: 0.01, max: 1 },
+    outputNodes: { min: 1, max: 5, integer: true },
   });
+  const [seed, setSeed] = useSeed();
+  const [imported, setImported] = useState<ImportedDataset | null>(null);
+  const [generatorSettings, setGeneratorSettings, generated] = useGeneratedDataset(seed);
+  // Imported data takes precedence over the shared generator
+  const dataset = imported ?? generated;
 
   const inputSize = 2,
     hiddenSize = 3;
   const input = [0.5, -0.3];
   const target = useMemo(() => Array(config.outputNodes).fill(1), [config.outputNodes]);
 
-  const createNetwork = () => {
-    const layers: Layer[] = [];
-    let prev = inputSize;
-    for (let i = 0; i < config.hiddenLayers; i++) {
-      layers.push({
-        weights: Array.from({ length: hiddenSize }, () =>
-          Array.from({ length: prev }, () => (Math.random() * 2 - 1) * 0.5)
-        ),
-        biases: Array.from({ length: hiddenSize }, () => (Math.random() * 2 - 1) * 0.5),
-      });
-      prev = hiddenSize;
-    }
-    layers.push({
-      weights: Array.from({ length: config.outputNodes }, () =>
-        Array.from({ length: prev }, () => (Math.random() * 2 - 1) * 0.5)
-      ),
-      biases: Array.from({ length: config.outputNodes }, () => (Math.random() * 2 - 1) * 0.5),
-    });
-    return layers;
-  };
-
-  const forwardPass = (layers: Layer[]) => {
-    const { func } = activations[config.activation as keyof typeof activations];
-    const acts: number[][] = [input];
-    let curr = input;
-    for (const layer of layers) {
-      const z = layer.weights.map((row, j) =>
-        row.reduce((sum, w, i) => sum + w * curr[i], layer.biases[j])
-      );
-      curr = z.map(func);
-      acts.push(curr);
-    }
-    return acts;
-  };
+  // With an imported or generated dataset every point is a sample and labels are one-hot encoded
+  // (a single output node separates the first class from the rest)
+  const samples = useMemo<NetworkSample[]>(() => {
+    if (!dataset) return [{ input, target }];
+    const n = config.outputNodes;
+    return dataset.points.map((p) => ({
+      input: [p.x, p.y],
+      target:
+        n === 1
+          ? [p.label > 0 ? 1 : 0]
+          : Array.from({ length: n }, (_, i) => (i === Math.min(p.label, n - 1) ? 1 : 0)),
+    }));
+  }, [dataset, target, config.outputNodes]);
 
-  const draw = (layers: Layer[], acts: number[][]) => {
+  const draw = (layers: Layer[], acts: number[][], target: number[], accuracy?: number) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext("2d");
@@ -171,61 +169,50 @@ export default function PerceptronVisualizer() {
     );
 
     const out = acts[acts.length - 1];
-    const loss = out.reduce((sum, v, i) => sum + (v - target[i]) ** 2, 0) / out.length;
+    const loss = meanSquaredLoss(out, target);
     ctx.fillStyle = "white";
     ctx.font = "17px sans-serif";
     ctx.textAlign = "end";
     ctx.fillText(`MSE: ${loss.toFixed(4)}`, w - 20, h - 20);
+    if (accuracy !== undefined) {
+      ctx.textAlign = "start";
+      ctx.fillText(`Accuracy: ${(accuracy * 100).toFixed(1)}%`, 20, h - 20);
+    }
   };
 
   useEffect(() => {
     cancelAnimationFrame(animRef.current!);
-    const newNetwork = createNetwork();
-    networkRef.current = newNetwork;
-  }, [config.hiddenLayers, config.outputNodes]);
+    networkRef.current = createNetwork({
+      inputSize,
+      hiddenLayers: config.hiddenLayers,
+      hiddenSize,
+      outputSize: config.outputNodes,
+    }, createRandom(seed, "init"));
+  }, [config.hiddenLayers, config.outputNodes, seed]);
 
   useEffect(() => {
     cancelAnimationFrame(animRef.current!)
   
     let layers = networkRef.current
     const lr = config.learningRate
-    const { activation, iterations } = config
-    const { derivative } = activations[activation as keyof typeof activations]
+    const activation = config.activation as ActivationName
+    const { iterations } = config
   
     let iter = 0
   
+    // One iteration is one epoch over the samples
     const step = () => {
-      const activationsList = forwardPass(layers)
-      const deltas: number[][] = []
-  
-      // Output layer delta
-      deltas.push(
-        activationsList.at(-1)!.map((output, i) => (output - target[i]) * derivative(output))
-      )
-  
-      // Hidden layer deltas (backpropagate)
-      for (let l = layers.length - 2; l >= 0; l--) {
-        const nextWeights = layers[l + 1].weights
-        const nextDeltas = deltas[0]
-        const currentActivations = activationsList[l + 1]
-  
-        deltas.unshift(
-          currentActivations.map((a, j) =>
-            nextWeights.reduce((sum, row, k) => sum + row[j] * nextDeltas[k], 0) * derivative(a)
-          )
-        )
-      }
-  
-      // Update weights and biases
-      layers = layers.map((layer, l) => ({
-        weights: layer.weights.map((row, j) =>
-          row.map((w, i) => w - lr * deltas[l][j] * activationsList[l][i])
-        ),
-        biases: layer.biases.map((b, j) => b - lr * deltas[l][j]),
-      }))
+      const result = trainEpoch(layers, samples, activation, lr)
+      const activationsList = result.activations
+      layers = result.layers
   
       networkRef.current = layers
-      draw(layers, activationsList)
+      draw(
+        layers,
+        activationsList,
+        samples[samples.length - 1].target,
+        dataset ? networkAccuracy(layers, samples, activation) : undefined
+      )
   
       if (++iter < iterations) {
         animRef.current = requestAnimationFrame(step)
@@ -241,6 +228,8 @@ export default function PerceptronVisualizer() {
     config.learningRate,
     config.hiddenLayers,
     config.outputNodes,
+    seed,
+    samples,
   ])
   
 
@@ -325,6 +314,18 @@ export default function PerceptronVisualizer() {
       ))}
     </select>
   </div>
+
+  <SeedControl seed={seed} onSeedChange={setSeed} />
+
+  <div className="mt-4">
+    <DatasetGenerator
+      settings={generatorSettings}
+      onChange={setGeneratorSettings}
+      overridden={!!imported}
+      defaultLabel="Single sample"
+    />
+    <DatasetImport dataset={imported} onImport={setImported} />
+  </div>
 </div>
 
         </div>
@@ -1,399 +1,526 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useSeed, useUrlState } from "@/hooks/use-url-state";
+import { useGeneratedDataset } from "@/hooks/use-generated-dataset";
 import "katex/dist/katex.min.css";
 import { BlockMath } from "react-katex";
 import { FiRefreshCw } from 'react-icons/fi';
-
-type Point = {
-  sepalLength: number;
-  sepalWidth: number;
-  species: string;
-};
-
-type Node = {
-  feature: number | null;
-  threshold: number | null;
-  impurity: number | null;
-  left: Node | null;
-  right: Node | null;
-  value: number | null;
-};
+import { decisionPath, predictTree, type Criterion, type TreeNode } from "@/lib/ml/decision-tree";
+import {
+  buildForest,
+  forestVote,
+  impurityImportances,
+  oobErrorCurve,
+  permutationImportances,
+} from "@/lib/ml/random-forest";
+import { createRandom } from "@/lib/ml/random";
+import { TREE_FORMAT_VERSION, type TreeModel } from "@/lib/ml/tree-export";
+import { IRIS_FEATURE_NAMES, IRIS_FEATURES, IRIS_URL, irisToTabular, parseIrisFeatures, type IrisRow } from "@/lib/data/iris";
+import { pointsToTabular } from "@/lib/data/tabular";
+import SeedControl from "@/components/seed-control";
+import DatasetGenerator from "@/components/dataset-generator";
+import FeaturePicker from "@/components/feature-picker";
+import TreeDiagram from "@/components/tree-diagram";
+import TreeExport from "@/components/tree-export";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+
+// Leaf colors by class; the first three match the Iris species
+const classColors = ["red", "blue", "green", "orange", "cyan"];
+
+// Diagrams are drawn for the first few trees only; the OOB chart uses the whole forest
+const MAX_DRAWN_TREES = 9;
+
+// Delay between comparisons when tracing the selected sample down the trees
+const TRACE_INTERVAL = 700;
+
+// Out-of-bag scatter plot size and inner margin
+const OOB_WIDTH = 600;
+const OOB_HEIGHT = 420;
+const OOB_MARGIN = 30;
+
+const oobChartConfig = {
+  error: { label: "OOB error", color: "#ff3860" },
+} satisfies ChartConfig;
+
+const importanceChartConfig = {
+  impurity: { label: "Impurity decrease", color: "#ff3860" },
+  permutation: { label: "OOB accuracy drop", color: "#38bdf8" },
+} satisfies ChartConfig;
+
+// "Petal Length 1.40 ≤ 2.45 → left": the comparison a split makes for one sample
+function describeSplit(node: TreeNode, features: number[], featureNames: string[]) {
+  const value = features[node.feature!];
+  const left = value <= node.threshold!;
+  return `${featureNames[node.feature!]} ${value.toFixed(2)} ${left ? "≤" : ">"} ${node.threshold!.toFixed(2)} → ${left ? "left" : "right"}`;
+}
+
+function splitFeatures(node: TreeNode | null, found = new Set<number>()) {
+  if (!node || node.feature === null) return found;
+  found.add(node.feature);
+  splitFeatures(node.left, found);
+  splitFeatures(node.right, found);
+  return found;
+}
 
 export default function MultipleDecisionTreePage() {
-  const [irisDataset, setIrisDataset] = useState<Point[]>([]);
-  const [params, setParams] = useState({
+  const [irisDataset, setIrisDataset] = useState<IrisRow[]>([]);
+  const [params, setParams] = useUrlState({
     maxDepth: 3,
     minSamplesSplit: 2,
     criterion: "gini",
     treeHeight: 600,
-    numberOfTrees: 3,
-    subsampleRatio: 0.8,
+    // Iris features the splits may use, comma-separated
+    features: IRIS_FEATURES.join(","),
+    numberOfTrees: 9,
+    // Bootstrap sample size relative to the data, drawn with replacement
+    subsampleRatio: 1,
     featureSubsetRatio: 0.8
+  }, {
+    maxDepth: { min: 1, max: 6, integer: true },
+    minSamplesSplit: { min: 2, max: 10, integer: true },
+    criterion: ["gini", "entropy"],
+    treeHeight: { min: 200, max: 2000 },
+    numberOfTrees: { min: 1, max: 50, integer: true },
+    subsampleRatio: { min: 0.5, max: 1 },
+    featureSubsetRatio: { min: 0.5, max: 1 },
   });
+  // The forest only classifies, so only the classification criteria apply
+  const criterion: Criterion = params.criterion === "entropy" ? "entropy" : "gini";
 
+  const [seed, setSeed] = useSeed();
+  const [generatorSettings, setGeneratorSettings, generated] = useGeneratedDataset(seed);
   const [selectedIndex, setSelectedIndex] = useState<number>(0);
-  const [forest, setForest] = useState<Node[]>([]);
-  const [prediction, setPrediction] = useState<number | null>(null);
-  const [individualVotes, setIndividualVotes] = useState<number[]>([]);
+  const [oobTreeIndex, setOobTreeIndex] = useState(0);
 
-  const canvasRefs = useRef<(HTMLCanvasElement | null)[]>([]);
+  const oobCanvasRef = useRef<HTMLCanvasElement | null>(null);
 
 
-  const labelMap: Record<string, number> = {
-    setosa: 0,
-    versicolor: 1,
-    virginica: 2,
-  };
+  const irisFeatures = useMemo(() => parseIrisFeatures(params.features), [params.features]);
 
-  const reverseLabelMap = Object.fromEntries(
-    Object.entries(labelMap).map(([key, val]) => [val, key])
+  // Iris by default; a generated dataset becomes a two-feature (x, y) table
+  const { samples, featureNames, classNames } = useMemo(
+    () =>
+      generated
+        ? pointsToTabular(generated)
+        : irisToTabular(irisDataset, irisFeatures.length > 0 ? irisFeatures : IRIS_FEATURES),
+    [generated, irisDataset, irisFeatures]
   );
 
-  const featureNames = ["Sepal Length", "Sepal Width"];
-
   useEffect(() => {
-    fetch("/data/irisDataset.json")
+    fetch(IRIS_URL)
       .then((res) => res.json())
       .then((data) => setIrisDataset(data))
       .catch((err) => console.error("Failed to load dataset:", err));
   }, []);
 
-  useEffect(() => {
-    if (irisDataset.length === 0) return;
-    const trees: Node[] = [];
-    for (let i = 0; i < params.numberOfTrees; i++) {
-      const sample = subsampleData(irisDataset, params.subsampleRatio);
-      trees.push(buildTree(sample, 0, params.maxDepth, params.minSamplesSplit, params.criterion));
-    }
-    setForest(trees);
-  }, [irisDataset, params]);
-
-  function calculateGini(labels: number[]) {
-    const counts: Record<number, number> = {};
-    for (const lbl of labels) {
-      counts[lbl] = (counts[lbl] || 0) + 1;
-    }
-    let impurity = 1;
-    for (const count of Object.values(counts)) {
-      const p = count / labels.length;
-      impurity -= p * p;
-    }
-    return impurity;
-  }
-
-  function predict(tree: Node, point: Point): number {
-    let node = tree;
-    while (node.left && node.right) {
-      const value = node.feature === 0 ? point.sepalLength : point.sepalWidth;
-      node = value <= node.threshold! ? node.left : node.right;
-    }
-    return node.value!;
-  }
-
-  function majorityVote(forest: Node[], point: Point): { final: number, votes: number[] } {
-    const individual = forest.map(tree => predict(tree, point));
-    const votes = [0, 0, 0];
-    individual.forEach(v => votes[v]++);
-    const final = votes.indexOf(Math.max(...votes));
-    return { final, votes: individual };
-  }
-
-  function calculateEntropy(labels: number[]) {
-    const counts: Record<number, number> = {};
-    for (const lbl of labels) {
-      counts[lbl] = (counts[lbl] || 0) + 1;
-    }
-    let entropy = 0;
-    for (const count of Object.values(counts)) {
-      const p = count / labels.length;
-      entropy -= p * Math.log2(p);
-    }
-    return entropy;
-  }
-
-  function subsampleData(data: Point[], ratio: number) {
-    const sampleSize = Math.floor(data.length * ratio);
-    const shuffled = [...data].sort(() => 0.5 - Math.random());
-    return shuffled.slice(0, sampleSize);
-  }
-
-  function selectRandomFeatureSubset(ratio: number) {
-    const numFeatures = Math.max(1, Math.floor(featureNames.length * ratio));
-    const allFeatures = [0, 1];
-    const shuffled = [...allFeatures].sort(() => 0.5 - Math.random());
-    return shuffled.slice(0, numFeatures);
-  }
-
-  function findBestSplit(data: Point[], criterion: string, minSamplesSplit: number, availableFeatures: number[]) {
-    if (data.length < minSamplesSplit) return null;
-
-    const impurityFn = criterion.toLowerCase() === "gini" ? calculateGini : calculateEntropy;
-    const labels = data.map((p) => labelMap[p.species]);
-    const currentImpurity = impurityFn(labels);
-
-    let bestGain = 0;
-    let bestFeature: number | null = null;
-    let bestThreshold: number | null = null;
-    let bestImpurity = currentImpurity;
-
-    const features = availableFeatures;
-
-    for (const feature of features) {
-      const values = [...new Set(data.map((p) => (feature === 0 ? p.sepalLength : p.sepalWidth)))].sort((a, b) => a - b);
-
-      for (let i = 0; i < values.length - 1; i++) {
-        const threshold = (values[i] + values[i + 1]) / 2;
-        const left = data.filter((p) => (feature === 0 ? p.sepalLength : p.sepalWidth) <= threshold);
-        const right = data.filter((p) => (feature === 0 ? p.sepalLength : p.sepalWidth) > threshold);
-        if (left.length === 0 || right.length === 0) continue;
+  // Only the training settings; display settings such as treeHeight don't retrain the forest
+  const forestParams = useMemo(
+    () => ({
+      maxDepth: params.maxDepth,
+      minSamplesSplit: params.minSamplesSplit,
+      criterion,
+      numberOfTrees: params.numberOfTrees,
+      subsampleRatio: params.subsampleRatio,
+      featureSubsetRatio: params.featureSubsetRatio,
+    }),
+    [params.maxDepth, params.minSamplesSplit, criterion, params.numberOfTrees, params.subsampleRatio, params.featureSubsetRatio]
+  );
 
-        const leftLabels = left.map((p) => labelMap[p.species]);
-        const rightLabels = right.map((p) => labelMap[p.species]);
+  const forest = useMemo(
+    () => (samples.length > 0 ? buildForest(samples, forestParams, createRandom(seed, "forest")) : []),
+    [samples, forestParams, seed]
+  );
 
-        const leftImp = impurityFn(leftLabels);
-        const rightImp = impurityFn(rightLabels);
+  const oobCurve = useMemo(
+    () => oobErrorCurve(forest, samples, classNames.length),
+    [forest, samples, classNames.length]
+  );
 
-        const weightedImp = (left.length / data.length) * leftImp + (right.length / data.length) * rightImp;
-        const gain = currentImpurity - weightedImp;
+  const importances = useMemo(() => {
+    const impurity = impurityImportances(forest, featureNames.length);
+    const permutation = permutationImportances(forest, samples, featureNames.length, createRandom(seed, "permutation"));
+    return featureNames.map((name, f) => ({ name, impurity: impurity[f], permutation: permutation[f] }));
+  }, [forest, samples, featureNames, seed]);
+
+  const exportModel = useMemo<TreeModel | null>(
+    () =>
+      forest.length > 0
+        ? {
+            format: "random-forest",
+            version: TREE_FORMAT_VERSION,
+            criterion,
+            featureNames,
+            classNames,
+            trees: forest.map((member) => member.tree),
+          }
+        : null,
+    [forest, criterion, featureNames, classNames]
+  );
 
-        if (gain > bestGain) {
-          bestGain = gain;
-          bestFeature = feature;
-          bestThreshold = threshold;
-          bestImpurity = currentImpurity;
-        }
-      }
-    }
+  const oobTree = forest[Math.min(oobTreeIndex, forest.length - 1)];
+
+  // Every tree's vote on the selected sample, from the same trees that are drawn below
+  const sampleIndex = Math.min(Math.max(0, selectedIndex), samples.length - 1);
+  const selectedSample = samples[sampleIndex];
+  // Custom feature values replace the dataset sample; they only apply to the features they were entered for
+  const [custom, setCustom] = useState<{ featureNames: string[]; values: number[] } | null>(null);
+  const customValues = custom && custom.featureNames === featureNames ? custom.values : null;
+  const query = customValues ?? selectedSample?.features;
+  const vote = useMemo(
+    () => (query ? forestVote(forest, query, classNames.length) : null),
+    [forest, query, classNames.length]
+  );
 
-    if (bestGain === 0) return null;
+  // The query's route from the root to the deciding leaf of each drawn tree
+  const paths = useMemo(
+    () => (query ? forest.slice(0, MAX_DRAWN_TREES).map((member) => decisionPath(member.tree, query)) : []),
+    [forest, query]
+  );
 
-    return {
-      feature: bestFeature,
-      threshold: bestThreshold,
-      impurity: bestImpurity,
-    };
-  }
+  // Trace playback: how many comparisons are revealed on every path; the full paths whenever they change
+  const [trace, setTrace] = useState<{ paths: TreeNode[][]; step: number } | null>(null);
+  const [isTracing, setIsTracing] = useState(false);
+  const traceLength = Math.max(0, ...paths.map((path) => path.length - 1));
+  const traceStep = trace && trace.paths === paths ? trace.step : traceLength;
 
-  function buildTree(data: Point[], depth: number, maxDepth: number, minSamplesSplit: number, criterion: string): Node {
-    const node: Node = {
-      feature: null,
-      threshold: null,
-      impurity: null,
-      left: null,
-      right: null,
-      value: null,
-    };
-
-    if (depth >= maxDepth || data.length < minSamplesSplit) {
-      const labels = data.map((p) => labelMap[p.species]);
-      // Calculate most common class
-      const counts: Record<number, number> = {};
-      for (const lbl of labels) {
-        counts[lbl] = (counts[lbl] || 0) + 1;
-      }
-      let maxCount = 0;
-      let maxLabel = 0;
-      for (const [label, count] of Object.entries(counts)) {
-        if (count > maxCount) {
-          maxCount = count;
-          maxLabel = Number(label);
-        }
-      }
-      node.value = maxLabel;
-      
-      const impurityFn = criterion.toLowerCase() === "gini" ? calculateGini : calculateEntropy;
-      node.impurity = impurityFn(labels);
-      return node;
+  useEffect(() => {
+    if (!isTracing) return;
+    if (traceStep >= traceLength) {
+      setIsTracing(false);
+      return;
     }
-
-    // Select random subset of features for this node (for randomness in trees)
-    const availableFeatures = selectRandomFeatureSubset(params.featureSubsetRatio);
-    
-    const split = findBestSplit(data, criterion, minSamplesSplit, availableFeatures);
-    if (!split) {
-      const labels = data.map((p) => labelMap[p.species]);
-      // Calculate most common class
-      const counts: Record<number, number> = {};
-      for (const lbl of labels) {
-        counts[lbl] = (counts[lbl] || 0) + 1;
-      }
-      let maxCount = 0;
-      let maxLabel = 0;
-      for (const [label, count] of Object.entries(counts)) {
-        if (count > maxCount) {
-          maxCount = count;
-          maxLabel = Number(label);
-        }
-      }
-      node.value = maxLabel;
-      
-      const impurityFn = criterion.toLowerCase() === "gini" ? calculateGini : calculateEntropy;
-      node.impurity = impurityFn(labels);
-      return node;
+    const id = setTimeout(() => setTrace({ paths, step: traceStep + 1 }), TRACE_INTERVAL);
+    return () => clearTimeout(id);
+  }, [isTracing, traceStep, traceLength, paths]);
+
+  function handleTraceToggle() {
+    if (traceStep >= traceLength) {
+      // Replay from the roots
+      setTrace({ paths, step: 0 });
+      setIsTracing(true);
+    } else {
+      setIsTracing((tracing) => !tracing);
     }
-
-    node.feature = split.feature;
-    node.threshold = split.threshold;
-    node.impurity = split.impurity;
-
-    const left = data.filter((p) => (split.feature === 0 ? p.sepalLength : p.sepalWidth) <= split.threshold!);
-    const right = data.filter((p) => (split.feature === 0 ? p.sepalLength : p.sepalWidth) > split.threshold!);
-
-    node.left = buildTree(left, depth + 1, maxDepth, minSamplesSplit, criterion);
-    node.right = buildTree(right, depth + 1, maxDepth, minSamplesSplit, criterion);
-
-    return node;
   }
 
-  function renderDecisionTree(ctx: CanvasRenderingContext2D, width: number, height: number, treeIndex: number) {
+  // The selected tree's bootstrap on the first two features: in-bag points sized by how often they
+  // were drawn, out-of-bag points ringed, and crossed when this tree gets them wrong
+  function renderOutOfBag(ctx: CanvasRenderingContext2D, width: number, height: number) {
     ctx.clearRect(0, 0, width, height);
-    
-    // Create different bootstrapped samples for each tree
-    const subsampledData = subsampleData(irisDataset, params.subsampleRatio);
-    const tree = buildTree(subsampledData, 0, params.maxDepth, params.minSamplesSplit, params.criterion);
-
-    ctx.font = "14px Arial";
-    ctx.fillStyle = "#fff";
-    ctx.textAlign = "center";
+    if (!oobTree || samples.length === 0) return;
 
-    function drawNode(node: Node | null, x: number, y: number, dx: number, dy: number, depth: number) {
-      if (!node) return;
+    const xs = samples.map((s) => s.features[0]);
+    const ys = samples.map((s) => s.features[1] ?? 0);
+    const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+    const toX = (v: number) => OOB_MARGIN + ((v - minX) / (maxX - minX || 1)) * (width - 2 * OOB_MARGIN);
+    const toY = (v: number) => height - OOB_MARGIN - ((v - minY) / (maxY - minY || 1)) * (height - 2 * OOB_MARGIN);
 
-      const radius = 20;
-
-      if (node.left) {
-        ctx.beginPath();
-        ctx.moveTo(x, y);
-        ctx.lineTo(x - dx, y + dy);
-        ctx.strokeStyle = "#ccc";
-        ctx.stroke();
-        drawNode(node.left, x - dx, y + dy, dx / 2, dy, depth + 1);
-      }
-
-      if (node.right) {
-        ctx.beginPath();
-        ctx.moveTo(x, y);
-        ctx.lineTo(x + dx, y + dy);
-        ctx.strokeStyle = "#ccc";
-        ctx.stroke();
-        drawNode(node.right, x + dx, y + dy, dx / 2, dy, depth + 1);
-      }
+    const draws = Array(samples.length).fill(0);
+    oobTree.inBag.forEach((i) => draws[i]++);
 
+    samples.forEach((sample, i) => {
+      const x = toX(sample.features[0]);
+      const y = toY(sample.features[1] ?? 0);
+      const color = classColors[sample.label % classColors.length];
       ctx.beginPath();
-      ctx.arc(x, y, radius, 0, Math.PI * 2);
-      const isLeaf = !node.left && !node.right;
-
-      if (isLeaf) {
-        ctx.fillStyle = node.value === 0 ? "red" : node.value === 1 ? "blue" : "green";
-      } else {
-        ctx.fillStyle = "purple";
+      if (draws[i] > 0) {
+        ctx.arc(x, y, Math.min(3 + 1.5 * (draws[i] - 1), 9), 0, Math.PI * 2);
+        ctx.globalAlpha = 0.35;
+        ctx.fillStyle = color;
+        ctx.fill();
+        ctx.globalAlpha = 1;
+        return;
       }
-
+      ctx.arc(x, y, 5, 0, Math.PI * 2);
+      ctx.fillStyle = color;
       ctx.fill();
-      ctx.strokeStyle = "#fff";
+      ctx.strokeStyle = "yellow";
+      ctx.lineWidth = 2;
       ctx.stroke();
-
-      ctx.fillStyle = "#fff";
-      ctx.font = "11px Arial";
-      ctx.textAlign = "center";
-      if (node.impurity !== null) {
-        ctx.fillText(node.impurity.toFixed(2), x, y + 4);
-      }
-
-      if (node.feature !== null && node.threshold !== null) {
-        ctx.fillStyle = "#fff";
-        ctx.font = "11px Arial";
-        ctx.fillText(featureNames[node.feature], x, y - 35);
-        ctx.fillText(`≤ ${node.threshold.toFixed(2)}`, x, y - 22);
+      ctx.lineWidth = 1;
+      if (predictTree(oobTree.tree, sample.features) !== sample.label) {
+        ctx.beginPath();
+        ctx.moveTo(x - 7, y - 7);
+        ctx.lineTo(x + 7, y + 7);
+        ctx.moveTo(x + 7, y - 7);
+        ctx.lineTo(x - 7, y + 7);
+        ctx.strokeStyle = "#fff";
+        ctx.stroke();
       }
-    }
+    });
 
-    drawNode(tree, width / 2, 50, width / 5, 80, 0);
+    ctx.fillStyle = "#fff";
+    ctx.font = "12px Arial";
+    ctx.textAlign = "center";
+    ctx.fillText(featureNames[0], width / 2, height - 8);
+    ctx.save();
+    ctx.translate(12, height / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.fillText(featureNames[1] ?? "", 0, 0);
+    ctx.restore();
   }
 
   useEffect(() => {
-    if (irisDataset.length === 0) return;
-    
-    canvasRefs.current.forEach((canvas, index) => {
-      if (!canvas) return;
-      const ctx = canvas.getContext("2d");
-      if (!ctx) return;
-      renderDecisionTree(ctx, canvas.width, canvas.height, index);
-    });
-  }, [params, irisDataset]);
-
-  // Initialize canvas refs array when number of trees changes
-  useEffect(() => {
-    canvasRefs.current = Array(params.numberOfTrees).fill(null);
-  }, [params.numberOfTrees]);
+    const canvas = oobCanvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    renderOutOfBag(ctx, canvas.width, canvas.height);
+  }, [oobTree, samples, featureNames]);
 
   return (
     <div className="p-4 space-y-10">
       <h1 className="text-4xl font-bold mb-4">Random Forest Visualizer</h1>
       <p className="text-lg text-muted-foreground">
-        Visualizing multiple decision trees with different random subsamples of the Iris dataset.
-        Each tree classifies Iris flowers by splitting data based on features like sepal length and width.
+        Visualizing multiple decision trees trained on different bootstrap samples of the Iris dataset.
+        Each tree classifies Iris flowers by splitting data on the sepal and petal features you select.
       </p>
 
       <div className="grid grid-cols-1 gap-6">
         <div className="space-y-4">
           <h2 className="text-2xl font-semibold">Random Forest</h2>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {Array.from({ length: params.numberOfTrees }).map((_, index) => (
-              <div key={index} className="border border-gray-300 rounded-lg bg-black p-2">
-                <canvas
-                  ref={el => canvasRefs.current[index] = el}
-                  width={400}
-                  height={400}
-                  className="w-full"
-                />
-              </div>
-            ))}
+            {forest.slice(0, MAX_DRAWN_TREES).map((member, index) => {
+              const path = paths[index] ?? [];
+              const reached = path.length > 0 && traceStep >= path.length - 1;
+              const treeVote = reached ? vote?.votes[index] : undefined;
+              const draws = member.inBag.filter((i) => i === sampleIndex).length;
+              return (
+                <div key={index} className="border border-gray-300 rounded-lg bg-black p-2 space-y-1">
+                  <div className="flex justify-between text-sm text-white">
+                    <span className="font-semibold">Tree {index + 1}</span>
+                    {treeVote !== undefined && (
+                      <span>
+                        votes{" "}
+                        <span className="font-semibold capitalize" style={{ color: classColors[treeVote % classColors.length] }}>
+                          {classNames[treeVote]}
+                        </span>
+                      </span>
+                    )}
+                  </div>
+                  <TreeDiagram
+                    tree={member.tree}
+                    featureNames={featureNames}
+                    classNames={classNames}
+                    classColor={(label) => classColors[label % classColors.length]}
+                    leafColor={(node) => classColors[node.value % classColors.length]}
+                    highlighted={path.slice(0, traceStep + 1)}
+                    height={400}
+                    compact
+                  />
+                  {query && (
+                    <ol className="text-xs font-mono space-y-0.5">
+                      {path.slice(0, Math.min(traceStep, path.length - 1)).map((node, depth) => (
+                        <li key={depth} className={isTracing && depth === traceStep - 1 ? "text-yellow-400" : "text-muted-foreground"}>
+                          {describeSplit(node, query, featureNames)}
+                        </li>
+                      ))}
+                      {reached && (
+                        <li className="text-white capitalize">→ {classNames[path[path.length - 1].value]}</li>
+                      )}
+                    </ol>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    Bootstrap: {member.inBag.length} draws, {samples.length - member.outOfBag.length} distinct ·
+                    {customValues ? " custom sample, not in the data" : ` sample #${sampleIndex} ${draws > 0 ? `drawn ×${draws}` : "out of bag"}`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Splits on{" "}
+                    {[...splitFeatures(member.tree)].sort((a, b) => a - b).map((f) => featureNames[f]).join(", ") || "nothing (a single leaf)"}
+                    {" "}· {member.tree.candidates.length || featureNames.length} of {featureNames.length} features tried per split
+                  </p>
+                </div>
+              );
+            })}
           </div>
         </div>
         
-        {irisDataset.length > 0 && (
+        {params.numberOfTrees > MAX_DRAWN_TREES && (
+          <p className="text-sm text-muted-foreground">
+            Showing the first {MAX_DRAWN_TREES} of {params.numberOfTrees} trees.
+          </p>
+        )}
+
+        {samples.length > 0 && (
           <div className="mt-6 space-y-4">
             <h2 className="text-2xl font-semibold">Majority Vote Prediction</h2>
-            <label className="text-white">
-              Pick a sample index (0 to {irisDataset.length - 1}):
-              <input
-                type="number"
-                min={0}
-                max={irisDataset.length - 1}
-                value={selectedIndex}
-                onChange={(e) => setSelectedIndex(Number(e.target.value))}
-                className="ml-2 p-1 rounded bg-gray-800 text-white border border-gray-600"
-              />
-            </label>
-            <button
-              onClick={() => {
-                const point = irisDataset[selectedIndex];
-                const { final, votes } = majorityVote(forest, point);
-                setPrediction(final);
-                setIndividualVotes(votes);
-              }}
-              className="ml-4 px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
-            >
-              Predict
-            </button>
-            {prediction !== null && (
+            <p className="text-muted-foreground">
+              The yellow path in each tree above follows the selected sample down to that tree&apos;s vote. Trace the
+              paths to step through the comparisons one level at a time.
+            </p>
+            <div className="control-row">
+              <span className="control-label">Sample</span>
+              <select
+                value={customValues ? "custom" : "dataset"}
+                onChange={(e) =>
+                  setCustom(
+                    e.target.value === "custom"
+                      ? { featureNames, values: [...(selectedSample?.features ?? featureNames.map(() => 0))] }
+                      : null
+                  )
+                }
+                className="styled-select"
+              >
+                <option value="dataset">From the dataset</option>
+                <option value="custom">Custom values</option>
+              </select>
+            </div>
+            {customValues ? (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {featureNames.map((name, f) => (
+                  <label key={name} className="text-white text-sm">
+                    {name}
+                    <input
+                      type="number"
+                      step={0.1}
+                      value={customValues[f]}
+                      onChange={(e) =>
+                        setCustom({ featureNames, values: customValues.map((v, g) => (g === f ? Number(e.target.value) : v)) })
+                      }
+                      className="mt-1 w-full p-1 rounded bg-gray-800 text-white border border-gray-600"
+                    />
+                  </label>
+                ))}
+              </div>
+            ) : (
+              <label className="text-white">
+                Pick a sample index (0 to {samples.length - 1}):
+                <input
+                  type="number"
+                  min={0}
+                  max={samples.length - 1}
+                  value={selectedIndex}
+                  onChange={(e) => setSelectedIndex(Number(e.target.value))}
+                  className="ml-2 p-1 rounded bg-gray-800 text-white border border-gray-600"
+                />
+              </label>
+            )}
+            <div className="flex items-center gap-4">
+              <button className="reset-btn" onClick={handleTraceToggle} disabled={traceLength === 0}>
+                {isTracing ? "Pause" : traceStep >= traceLength ? "Trace Paths" : "Resume"}
+              </button>
+              <span className="text-sm text-muted-foreground">
+                Comparison {traceStep} of {traceLength}
+              </span>
+            </div>
+            {vote && query && (
               <div className="text-white mt-4">
+                {!customValues && selectedSample && (
+                  <p>
+                    <strong>True Label:</strong> {classNames[selectedSample.label]}
+                  </p>
+                )}
                 <p>
-                  <strong>True Label:</strong> {irisDataset[selectedIndex].species}
+                  <strong>Votes:</strong>{" "}
+                  {classNames
+                    .map((name, c) => `${name} ${vote.votes.filter((v) => v === c).length}`)
+                    .join(" · ")}
                 </p>
                 <p>
-                  <strong>Individual Votes:</strong> {individualVotes.map(v => reverseLabelMap[v]).join(", ")}
-                </p>
-                <p>
-                  <strong>Majority Vote:</strong> {reverseLabelMap[prediction]}
+                  <strong>Majority Vote:</strong> {classNames[vote.final]}
                 </p>
               </div>
             )}
           </div>
         )}
 
+        {oobTree && (
+          <div className="space-y-4">
+            <h2 className="text-2xl font-semibold">Out-of-Bag Error</h2>
+            <p className="text-muted-foreground">
+              Each tree trains on a bootstrap sample drawn with replacement, so roughly a third of the data (1/e ≈ 37%)
+              is never drawn for it. Those out-of-bag samples are a free validation set: every sample is voted on only by
+              the trees that didn't see it.
+            </p>
+            <ChartContainer config={oobChartConfig} className="aspect-auto h-[240px] w-full">
+              <LineChart data={oobCurve} margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="trees" type="number" domain={[1, "dataMax"]} allowDecimals={false} />
+                <YAxis domain={[0, "auto"]} tickFormatter={(value: number) => `${Math.round(value * 100)}%`} width={45} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) => `${payload[0]?.payload.trees} trees`}
+                      formatter={(value, _, item) =>
+                        `OOB error ${(Number(value) * 100).toFixed(1)}% over ${Math.round(item.payload.coverage * 100)}% of samples`
+                      }
+                    />
+                  }
+                />
+                <Line dataKey="error" type="monotone" stroke="var(--color-error)" strokeWidth={2} dot={{ r: 2 }} isAnimationActive={false} />
+              </LineChart>
+            </ChartContainer>
+
+            <div className="control-row">
+              <span className="control-label">Tree</span>
+              <input
+                type="range"
+                min="0"
+                max={forest.length - 1}
+                value={Math.min(oobTreeIndex, forest.length - 1)}
+                onChange={(e) => setOobTreeIndex(+e.target.value)}
+                style={
+                  {
+                    "--value": `${forest.length > 1 ? (Math.min(oobTreeIndex, forest.length - 1) / (forest.length - 1)) * 100 : 0}%`,
+                  } as React.CSSProperties
+                }
+                className="slider"
+              />
+              <span className="control-value">{Math.min(oobTreeIndex, forest.length - 1) + 1}</span>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {oobTree.inBag.length} draws covering {samples.length - oobTree.outOfBag.length} distinct samples ·{" "}
+              {oobTree.outOfBag.length} out of bag ({((oobTree.outOfBag.length / samples.length) * 100).toFixed(0)}%, ringed in
+              yellow, crossed when this tree misclassifies them)
+            </p>
+            <canvas
+              ref={oobCanvasRef}
+              width={OOB_WIDTH}
+              height={OOB_HEIGHT}
+              className="w-full max-w-[600px] border border-gray-300 rounded-lg bg-black"
+            />
+          </div>
+        )}
+
+        {forest.length > 0 && (
+          <div className="space-y-4">
+            <h2 className="text-2xl font-semibold">Feature Importance</h2>
+            <p className="text-muted-foreground">
+              Impurity-based importance adds up how much each feature&apos;s splits reduce impurity across the forest.
+              It is cheap but favours features with many possible thresholds. Permutation importance shuffles one
+              feature among each tree&apos;s out-of-bag samples and measures how much its accuracy drops.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {(["impurity", "permutation"] as const).map((key) => (
+                <div key={key} className="space-y-2">
+                  <h3 className="text-lg font-semibold">{importanceChartConfig[key].label}</h3>
+                  <ChartContainer config={importanceChartConfig} className="aspect-auto h-[220px] w-full">
+                    <BarChart data={importances} layout="vertical" margin={{ top: 5, right: 20, bottom: 5, left: 10 }}>
+                      <CartesianGrid horizontal={false} />
+                      <XAxis
+                        type="number"
+                        domain={key === "impurity" ? [0, 1] : ["auto", "auto"]}
+                        tickFormatter={(value: number) => `${Math.round(value * 100)}%`}
+                      />
+                      <YAxis type="category" dataKey="name" width={100} />
+                      <ChartTooltip
+                        content={
+                          <ChartTooltipContent
+                            formatter={(value) => `${importanceChartConfig[key].label}: ${(Number(value) * 100).toFixed(1)}%`}
+                          />
+                        }
+                      />
+                      <Bar dataKey={key} fill={`var(--color-${key})`} radius={4} isAnimationActive={false} />
+                    </BarChart>
+                  </ChartContainer>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         <section className="controls-section">
           <h3 className="text-xl font-semibold text-white mb-4">Controls</h3>
 
@@ -402,14 +529,14 @@ export default function MultipleDecisionTreePage() {
             <input
               type="range"
               min="1"
-              max="9"
+              max="50"
               value={params.numberOfTrees}
               onChange={(e) =>
                 setParams({ ...params, numberOfTrees: +e.target.value })
               }
               style={
                 {
-                  "--value": `${((params.numberOfTrees - 1) / 8) * 100}%`,
+                  "--value": `${((params.numberOfTrees - 1) / 49) * 100}%`,
                 } as React.CSSProperties
               }
               className="slider"
@@ -418,7 +545,7 @@ export default function MultipleDecisionTreePage() {
           </div>
 
           <div className="control-row">
-            <span className="control-label">Subsample Ratio</span>
+            <span className="control-label">Bootstrap Size</span>
             <input
               type="range"
               min="50"
@@ -512,6 +639,31 @@ export default function MultipleDecisionTreePage() {
             <span className="control-value">{params.criterion}</span>
           </div>
 
+          <div className="control-row">
+            <SeedControl seed={seed} onSeedChange={setSeed} />
+          </div>
+
+          <div className="mb-4">
+            <DatasetGenerator
+              settings={generatorSettings}
+              onChange={setGeneratorSettings}
+              defaultLabel="Iris"
+            />
+          </div>
+
+          <div className="mb-4">
+            <FeaturePicker
+              features={IRIS_FEATURE_NAMES}
+              selected={irisFeatures}
+              onChange={(selected) => setParams({ ...params, features: selected.join(",") })}
+              disabledReason={generated ? "Generated datasets always split on x and y." : undefined}
+            />
+          </div>
+
+          <div className="mb-4">
+            <TreeExport model={exportModel} classColor={(label) => classColors[label % classColors.length]} />
+          </div>
+
           <button
             className="reset-btn"
             onClick={() =>
@@ -520,9 +672,10 @@ export default function MultipleDecisionTreePage() {
                 minSamplesSplit: 2,
                 criterion: "gini",
                 treeHeight: 600,
-                numberOfTrees: 3,
-                subsampleRatio: 0.8,
-                featureSubsetRatio: 0.8
+                numberOfTrees: 9,
+                subsampleRatio: 1,
+                featureSubsetRatio: 0.8,
+                features: IRIS_FEATURES.join(","),
               })
             }
           >
@@ -536,8 +689,9 @@ export default function MultipleDecisionTreePage() {
             <h2 className="text-2xl font-semibold">How It Works</h2>
             <p className="text-muted-foreground">
               This visualizer shows multiple decision trees, each trained on a random subset of the Iris dataset.
-              Each node shows the impurity score (Gini or Entropy), and the predicted class is indicated by color.
-              If a split occurs, the feature used and the threshold value are shown above the node.
+              Each node card shows its split (or, for a leaf, the predicted class), the impurity score (Gini or Entropy),
+              the number of bootstrap samples that reached it and their class distribution. Under a split are the
+              features it was chosen from. Drag to pan, scroll to zoom, and click a split to collapse its subtree.
             </p>
             <p className="text-muted-foreground mt-2">
               The trees differ because they're trained on different random subsets of the data and may use
@@ -556,22 +710,29 @@ export default function MultipleDecisionTreePage() {
           <section>
             <h3 className="text-xl font-semibold">Node Colors</h3>
             <ul className="list-disc list-inside text-muted-foreground">
-              <li><span className="text-red-600 font-semibold">Red:</span> Setosa</li>
-              <li><span className="text-blue-600 font-semibold">Blue:</span> Versicolor</li>
-              <li><span className="text-green-600 font-semibold">Green:</span> Virginica</li>
-              <li><span className="text-purple-600 font-semibold">Purple:</span> Internal (split) node</li>
+              {classNames.map((name, c) => (
+                <li key={name}>
+                  <span className="font-semibold capitalize" style={{ color: classColors[c % classColors.length] }}>
+                    {classColors[c % classColors.length]}:
+                  </span>{" "}
+                  <span className="capitalize">{name}</span>
+                </li>
+              ))}
+              <li><span className="text-purple-600 font-semibold">Purple:</span> Internal (split) node border</li>
             </ul>
           </section>
 
           <section>
             <h3 className="text-xl font-semibold">Interactive Controls</h3>
             <ul className="list-disc list-inside text-muted-foreground">
-              <li><strong>Number of Trees:</strong> Controls how many different trees are displayed.</li>
-              <li><strong>Subsample Ratio:</strong> Percentage of the dataset used for training each tree, creating diversity among trees.</li>
+              <li><strong>Number of Trees:</strong> Sets the size of the forest; the first {MAX_DRAWN_TREES} trees are drawn.</li>
+              <li><strong>Bootstrap Size:</strong> How many samples each tree draws with replacement, relative to the dataset size. Repeated draws and the samples left out are what make the trees differ.</li>
               <li><strong>Feature Subset:</strong> Percentage of features considered at each split, adding randomness to the tree building process.</li>
+              <li><strong>Split Features:</strong> The Iris measurements available to the forest; the feature subset at each split is drawn from these.</li>
               <li><strong>Max Depth:</strong> Controls the maximum depth of each tree. Increasing the depth allows trees to make more splits.</li>
               <li><strong>Min Samples Split:</strong> Defines the minimum number of samples required to split an internal node.</li>
               <li><strong>Criterion:</strong> The function used to measure the quality of a split (Gini or Entropy).</li>
+              <li><strong>Export &amp; Import:</strong> Save every tree of the forest as versioned JSON, if/else rules, or Python or JavaScript code whose <code>predict</code> takes the majority vote. Importing a JSON export lets you browse its trees again.</li>
             </ul>
           </section>
 
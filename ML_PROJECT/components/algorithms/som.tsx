@@ -1,15 +1,28 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
+import { useSeed, useUrlState } from "@/hooks/use-url-state";
+import { useGeneratedDataset } from "@/hooks/use-generated-dataset";
 import VisualizationCanvas from "@/components/visualization-canvas";
+import SeedControl from "@/components/seed-control";
+import DatasetGenerator from "@/components/dataset-generator";
+import { createRandom } from "@/lib/ml/random";
+import { trainSOM, type SOMParams } from "@/lib/ml/som";
 
 export default function SOMPage() {
-  const [params, setParams] = useState({
+  const [params, setParams] = useUrlState({
     gridSize: 10,
     learningRate: 0.1,
     iterations: 100,
     sigma: 1.0,
+  }, {
+    gridSize: { min: 5, max: 20, integer: true },
+    learningRate: { min: 0.01, max: 0.5 },
+    iterations: { min: 10, max: 200, integer: true },
+    sigma: { min: 0.5, max: 3 },
   });
+  const [seed, setSeed] = useSeed();
+  const [generatorSettings, setGeneratorSettings, generated] = useGeneratedDataset(seed);
 
   const [currentFrame, setCurrentFrame] = useState(0);
   const [isAnimating, setIsAnimating] = useState(false);
@@ -49,15 +62,19 @@ export default function SOMPage() {
     },
   ];
 
-  // Fixed dataset for visualization
-  const fixedData = Array.from({ length: 200 }, () => {
-    const angle = Math.random() * 2 * Math.PI;
-    const radius = 0.6 + Math.random() * 0.2;
-    return {
-      x: Math.cos(angle) * radius,
-      y: Math.sin(angle) * radius,
-    };
-  });
+  // Fixed dataset for visualization (labels of generated data are ignored)
+  const fixedData = useMemo(() => {
+    if (generated) return generated.points.map(({ x, y }) => ({ x, y }));
+    const random = createRandom(seed, "data");
+    return Array.from({ length: 200 }, () => {
+      const angle = random() * 2 * Math.PI;
+      const radius = 0.6 + random() * 0.2;
+      return {
+        x: Math.cos(angle) * radius,
+        y: Math.sin(angle) * radius,
+      };
+    });
+  }, [seed, generated]);
 
   const renderSOM = (
     ctx: CanvasRenderingContext2D,
@@ -82,52 +99,15 @@ export default function SOMPage() {
       };
     };
 
-    // Init SOM grid
-    const grid = [];
-    for (let i = 0; i < gridSize; i++) {
-      for (let j = 0; j < gridSize; j++) {
-        grid.push({
-          x: i / (gridSize - 1) - 0.5,
-          y: j / (gridSize - 1) - 0.5,
-          i,
-          j,
-        });
-      }
-    }
-
     const totalIterations = Math.min(iterations, frame);
-    let lastBMU = null;
 
     // Train up to current frame
-    for (let iter = 0; iter < totalIterations; iter++) {
-      const point = fixedData[Math.floor(Math.random() * fixedData.length)];
-
-      // Find BMU
-      let bmuIndex = 0;
-      let minDist = Infinity;
-      for (let i = 0; i < grid.length; i++) {
-        const node = grid[i];
-        const dist = Math.hypot(point.x - node.x, point.y - node.y);
-        if (dist < minDist) {
-          minDist = dist;
-          bmuIndex = i;
-        }
-      }
-
-      lastBMU = grid[bmuIndex];
-
-      const lrDecay = learningRate * Math.exp(-iter / iterations);
-      const sigmaDecay = sigma * Math.exp(-iter / iterations);
-
-      for (let i = 0; i < grid.length; i++) {
-        const node = grid[i];
-        const gridDist = Math.hypot(node.i - lastBMU.i, node.j - lastBMU.j);
-        const influence = Math.exp(-(gridDist ** 2) / (2 * sigmaDecay ** 2));
-
-        node.x += lrDecay * influence * (point.x - node.x);
-        node.y += lrDecay * influence * (point.y - node.y);
-      }
-    }
+    const { grid, lastBMU } = trainSOM(
+      fixedData,
+      params as SOMParams,
+      totalIterations,
+      createRandom(seed, "train")
+    );
 
     // Draw data points
     for (const point of fixedData) {
@@ -271,6 +251,18 @@ export default function SOMPage() {
             onAnimateToggle={handleAnimateToggle}
           />
           
+          <div className="mt-4">
+            <SeedControl seed={seed} onSeedChange={setSeed} />
+          </div>
+
+          <div className="mt-4">
+            <DatasetGenerator
+              settings={generatorSettings}
+              onChange={setGeneratorSettings}
+              defaultLabel="Ring"
+            />
+          </div>
+
           {/* Progress indicator */}
           <div className="mt-4">
             <div className="w-full bg-gray-700 rounded-full h-2.5">
@@ -1,27 +1,64 @@
 "use client"
 
-import { useEffect, useRef, useState } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
+import { useSeed, useUrlState } from "@/hooks/use-url-state"
+import { useGeneratedDataset } from "@/hooks/use-generated-dataset"
+import { useEditablePoints } from "@/hooks/use-editable-points"
+import { useDebouncedValue } from "@/hooks/use-debounced-value"
 import VisualizationCanvas from "@/components/visualization-canvas"
-
-function useSVMData(params: any) {
+import SeedControl from "@/components/seed-control"
+import DatasetImport from "@/components/dataset-import"
+import DatasetGenerator from "@/components/dataset-generator"
+import PointEditor, { type CanvasSize } from "@/components/point-editor"
+import { Slider } from "@/components/ui/slider"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { ImportedDataset } from "@/lib/data/import"
+import { createRandom } from "@/lib/ml/random"
+import { parseKernelExpression } from "@/lib/ml/kernel-expression"
+import {
+  fitSVM,
+  modelAtStep,
+  predictSVM,
+  svmDecision,
+  type KernelType,
+  type SMOStep,
+  type SVMModel,
+} from "@/lib/ml/svm"
+import type { LabeledPoint, Point, RandomFn } from "@/lib/ml/types"
+
+// Same plot area as renderSVM: [-5, 5] on both axes inside a 40px margin
+const MARGIN = 40
+const toCanvas = (p: Point, { width, height }: CanvasSize) => ({
+  x: MARGIN + ((p.x + 5) / 10) * (width - 2 * MARGIN),
+  y: MARGIN + ((p.y + 5) / 10) * (height - 2 * MARGIN),
+})
+const fromCanvas = (p: Point, { width, height }: CanvasSize) => ({
+  x: ((p.x - MARGIN) / (width - 2 * MARGIN)) * 10 - 5,
+  y: ((p.y - MARGIN) / (height - 2 * MARGIN)) * 10 - 5,
+})
+
+function useSVMData(params: any, seed: number) {
   const [points, setPoints] = useState<any[]>([])
-  const initialPoints = useRef<any[]>([])
-  const prevNoise = useRef<number>(params.noise)
+  // Switching kernels keeps the current points; only noise and seed regenerate them
+  const kernelRef = useRef<string>(params.kernel)
+  kernelRef.current = params.kernel
 
-  const generateData = (noise: number, kernel: number) => {
+  const generateData = (noise: number, kernel: string, random: RandomFn) => {
     const numPoints = 15 // Increased points
     const data = []
   
     for (let i = 0; i < numPoints; i++) {
-      const x = Math.random() * 4 - 2 // [-2, 2]
-      const y = Math.random() * 4 - 2
+      const x = random() * 4 - 2 // [-2, 2]
+      const y = random() * 4 - 2
       let label = 0
   
-      if (kernel < 0.5) {
-        label = y > 0.5 * x ? (Math.random() > noise ? 1 : 0) : (Math.random() > noise ? 0 : 1)
+      if (kernel === "linear") {
+        label = y > 0.5 * x ? (random() > noise ? 1 : 0) : (random() > noise ? 0 : 1)
       } else {
         const dist = Math.sqrt(x * x + y * y)
-        label = dist < 1.2 ? (Math.random() > noise ? 1 : 0) : (Math.random() > noise ? 0 : 1)
+        label = dist < 1.2 ? (random() > noise ? 1 : 0) : (random() > noise ? 0 : 1)
       }
   
       data.push({ x, y, label })
@@ -29,115 +66,135 @@ function useSVMData(params: any) {
   
     return data
   }
-  
 
   useEffect(() => {
-    if (points.length === 0) {
-      const initial = generateData(params.noise, params.kernel)
-      initialPoints.current = initial
-      setPoints(initial)
-    }
-  }, [])
-
-  useEffect(() => {
-    if (prevNoise.current !== params.noise) {
-      prevNoise.current = params.noise
-      const newPoints = generateData(params.noise, params.kernel)
-      initialPoints.current = newPoints
-      setPoints(newPoints)
-    } else {
-      setPoints(initialPoints.current)
-    }
-  }, [params.noise, params.kernel])
+    setPoints(generateData(params.noise, kernelRef.current, createRandom(seed, "data")))
+  }, [params.noise, seed])
 
   return { points, setPoints }
 }
 
-function renderSVM(ctx: CanvasRenderingContext2D, width: number, height: number, params: any, points: any[]) {
-  const { c, kernel, gamma } = params
-  const margin = 40
-  const plotWidth = width - 2 * margin
-  const plotHeight = height - 2 * margin
+const KERNEL_NAMES: Record<KernelType, string> = {
+  linear: "Linear",
+  poly: "Polynomial",
+  rbf: "RBF",
+  sigmoid: "Sigmoid",
+  custom: "Custom",
+}
 
-  // Update: Adjusted to new margin range [-5, 5]
-  const scale = 1.0 // Scale factor for [-5, 5] range
-  
-  const kernelFunction = (x1: number, y1: number, x2: number, y2: number) => {
-    if (kernel < 0.5) return x1 * x2 + y1 * y2
-    const dist2 = Math.pow(x1 - x2, 2) + Math.pow(y1 - y2, 2)
-    return Math.exp(-gamma * dist2)
-  }
+// Hyperparameter sliders shown for each kernel
+const KERNEL_PARAMS: Record<KernelType, string[]> = {
+  linear: [],
+  poly: ["gamma", "degree", "coef0"],
+  rbf: ["gamma"],
+  sigmoid: ["gamma", "coef0"],
+  custom: ["gamma", "coef0"],
+}
 
-  // Simulate C by scaling alpha only for near-boundary points
-  const predictRawBase = (x: number, y: number) =>
-    points.reduce((sum, point) => {
-      const k = kernelFunction(x, y, point.x, point.y)
-      return sum + (point.label === 1 ? 1 : -1) * k
-    }, 0)
-
-  const marginCutoff = 1 / c
-  const alphas = points.map(p => {
-    const raw = predictRawBase(p.x, p.y)
-    return Math.abs(raw) < marginCutoff ? (p.label === 1 ? c : -c) : 0
-  })
+const DEFAULT_EXPRESSION = "(x·y + coef0)^2 + exp(-gamma * ||x−y||²)"
+
+// Unknown values (e.g. an old numeric URL param) fall back to RBF
+const kernelOf = (value: string): KernelType => (Object.hasOwn(KERNEL_NAMES, value) ? (value as KernelType) : "rbf")
+
+// Playback shows at most ~200 frames, one every 80ms
+const PLAYBACK_INTERVAL = 80
+const PLAYBACK_FRAMES = 200
+// Updates recorded for playback; later ones still run but can't be scrubbed to
+const MAX_RECORDED_STEPS = 2000
+// Refit once point edits pause, not on every pointer move of a drag
+const REFIT_DELAY = 150
+
+// Marching squares over a (resolution + 1)^2 grid of decision values; emits one segment per crossed cell
+function drawContour(
+  ctx: CanvasRenderingContext2D,
+  values: number[][],
+  level: number,
+  toX: (i: number) => number,
+  toY: (j: number) => number
+) {
+  const resolution = values.length - 1
+  const lerp = (a: number, b: number) => (level - a) / (b - a)
+
+  ctx.beginPath()
+  for (let i = 0; i < resolution; i++) {
+    for (let j = 0; j < resolution; j++) {
+      const v00 = values[i][j]
+      const v10 = values[i + 1][j]
+      const v01 = values[i][j + 1]
+      const v11 = values[i + 1][j + 1]
+
+      // Edge crossings: top, right, bottom, left
+      const crossings: [number, number][] = []
+      if (v00 > level !== v10 > level) crossings.push([toX(i + lerp(v00, v10)), toY(j)])
+      if (v10 > level !== v11 > level) crossings.push([toX(i + 1), toY(j + lerp(v10, v11))])
+      if (v01 > level !== v11 > level) crossings.push([toX(i + lerp(v01, v11)), toY(j + 1)])
+      if (v00 > level !== v01 > level) crossings.push([toX(i), toY(j + lerp(v00, v01))])
+
+      for (let k = 0; k + 1 < crossings.length; k += 2) {
+        ctx.moveTo(...crossings[k])
+        ctx.lineTo(...crossings[k + 1])
+      }
+    }
+  }
+  ctx.stroke()
+}
 
-  const predictRaw = (x: number, y: number) =>
-    points.reduce((sum, point, i) => sum + alphas[i] * kernelFunction(x, y, point.x, point.y), 0)
+function renderSVM(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  params: any,
+  model: SVMModel,
+  playback?: { step: SMOStep | null; frame: number; total: number }
+) {
+  const { c } = params
+  const kernelType = kernelOf(params.kernel)
+  const { points } = model
+  const margin = 40
+  const plotWidth = width - 2 * margin
+  const plotHeight = height - 2 * margin
 
-  const predict = (x: number, y: number) => (predictRaw(x, y) > 0 ? 1 : 0)
+  // Plot range is [-5, 5] on both axes
+  const toX = (x: number) => margin + ((x + 5) / 10) * plotWidth
+  const toY = (y: number) => margin + ((y + 5) / 10) * plotHeight
 
-  // Clear and draw background
+  // Clear and sample the decision function on a grid
   ctx.clearRect(0, 0, width, height)
-  const resolution = 200
+  const resolution = 120
   const stepX = plotWidth / resolution
   const stepY = plotHeight / resolution
+  const values = Array.from({ length: resolution + 1 }, (_, px) =>
+    Array.from({ length: resolution + 1 }, (_, py) =>
+      svmDecision(model, (px / resolution) * 10 - 5, (py / resolution) * 10 - 5)
+    )
+  )
 
+  // Shade each cell by class, highlighting the margin band |f(x)| < 1
   for (let px = 0; px < resolution; px++) {
     for (let py = 0; py < resolution; py++) {
-      const x = (px / resolution) * 10 - 5  // Updated range to [-5, 5]
-      const y = (py / resolution) * 10 - 5  // Updated range to [-5, 5]
-      const raw = predictRaw(x, y)
+      const raw = (values[px][py] + values[px + 1][py] + values[px][py + 1] + values[px + 1][py + 1]) / 4
 
-      let color = "rgba(200,200,200,0.1)"
+      let color
       if (Math.abs(raw) < 1.0) color = "rgba(255,255,0,0.2)"
       else color = raw > 0 ? "rgba(74, 222, 128, 0.2)" : "rgba(248, 113, 113, 0.2)"
 
       ctx.fillStyle = color
-      ctx.fillRect(margin + px * stepX, margin + py * stepY, stepX, stepY)
+      ctx.fillRect(margin + px * stepX, margin + py * stepY, stepX + 0.5, stepY + 0.5)
     }
   }
 
-  // Draw margins for linear kernel
-  if (kernel < 0.5) {
-    const drawMargin = (level: number, color: string) => {
-      ctx.strokeStyle = color
-      ctx.beginPath()
-      for (let px = 0; px < resolution; px++) {
-        const x = (px / resolution) * 10 - 5  // Updated range to [-5, 5]
-        let found = false
-        for (let py = 0; py < resolution; py++) {
-          const y = (py / resolution) * 10 - 5  // Updated range to [-5, 5]
-          const raw = predictRaw(x, y)
-          if (Math.abs(raw - level) < 0.05) {
-            const canvasX = margin + px * stepX
-            const canvasY = margin + py * stepY
-            if (!found) {
-              ctx.moveTo(canvasX, canvasY)
-              found = true
-            } else {
-              ctx.lineTo(canvasX, canvasY)
-              break
-            }
-          }
-        }
-      }
-      ctx.stroke()
-    }
-
-    drawMargin(0, "#000")
-    drawMargin(1, "#aaa")
-    drawMargin(-1, "#aaa")
-  }
+  // Decision boundary f(x) = 0 and margins f(x) = ±1
+  const gridX = (i: number) => margin + i * stepX
+  const gridY = (j: number) => margin + j * stepY
+  ctx.lineWidth = 2
+  ctx.strokeStyle = "#fff"
+  drawContour(ctx, values, 0, gridX, gridY)
+  ctx.lineWidth = 1
+  ctx.setLineDash([6, 4])
+  ctx.strokeStyle = "#aaa"
+  drawContour(ctx, values, 1, gridX, gridY)
+  drawContour(ctx, values, -1, gridX, gridY)
+  ctx.setLineDash([])
 
   // Axes
   ctx.strokeStyle = "#666"
@@ -164,55 +221,171 @@ function renderSVM(ctx: CanvasRenderingContext2D, width: number, height: number,
   ctx.fillText("5", margin - 10, margin)
 
   // Points
-  for (const [i, point] of points.entries()) {
-    const canvasX = margin + ((point.x + 5) / 10) * plotWidth
-    const canvasY = margin + ((point.y + 5) / 10) * plotHeight
-
-    // Highlight support vectors with a border
-    const isSupportVector = Math.abs(predictRaw(point.x, point.y)) <= 1.05
+  for (const point of points) {
     ctx.fillStyle = point.label === 1 ? "#4ade80" : "#f87171"
     ctx.beginPath()
-    ctx.arc(canvasX, canvasY, 4, 0, Math.PI * 2)
+    ctx.arc(toX(point.x), toY(point.y), 4, 0, Math.PI * 2)
     ctx.fill()
+  }
 
-    if (isSupportVector) {
-      ctx.strokeStyle = "#fff"
-      ctx.lineWidth = 2
+  // Support vectors: solid ring on the margin (0 < alpha < C), dashed ring when alpha = C
+  ctx.strokeStyle = "#fff"
+  ctx.lineWidth = 2
+  for (const i of model.supportVectors) {
+    const point = points[i]
+    ctx.setLineDash(model.alphas[i] >= c - 1e-6 ? [3, 3] : [])
+    ctx.beginPath()
+    ctx.arc(toX(point.x), toY(point.y), 7, 0, Math.PI * 2)
+    ctx.stroke()
+  }
+  ctx.setLineDash([])
+
+  // The pair optimized in the current playback step
+  const step = playback?.step
+  if (step) {
+    const [p1, p2] = [points[step.i1], points[step.i2]]
+    ctx.strokeStyle = "#facc15"
+    ctx.lineWidth = 2
+    ctx.setLineDash([4, 4])
+    ctx.beginPath()
+    ctx.moveTo(toX(p1.x), toY(p1.y))
+    ctx.lineTo(toX(p2.x), toY(p2.y))
+    ctx.stroke()
+    ctx.setLineDash([])
+    for (const p of [p1, p2]) {
       ctx.beginPath()
-      ctx.arc(canvasX, canvasY, 6, 0, Math.PI * 2) // Larger circle for support vectors
+      ctx.arc(toX(p.x), toY(p.y), 11, 0, Math.PI * 2)
       ctx.stroke()
     }
   }
 
   // Info
+  const errors = points.filter((p) => predictSVM(model, p.x, p.y) !== p.label).length
+  const lines = [
+    ...(playback ? [`Step: ${playback.frame} / ${playback.total}`] : []),
+    `C: ${c.toFixed(2)}`,
+    `Kernel: ${KERNEL_NAMES[kernelType]}`,
+    ...KERNEL_PARAMS[kernelType].map((name) => `${name[0].toUpperCase()}${name.slice(1)}: ${params[name]}`),
+    `Bias: ${model.bias.toFixed(3)}`,
+    `Support Vectors: ${model.supportVectors.length}`,
+    `Dual Objective: ${model.objective.toFixed(3)}`,
+    `Errors: ${errors}`,
+  ]
   ctx.fillStyle = "#fff"
   ctx.font = "14px sans-serif"
   ctx.textAlign = "left"
-  ctx.fillText(`C: ${c.toFixed(1)}`, margin + 10, margin + 20)
-  ctx.fillText(`Kernel: ${kernel < 0.5 ? "Linear" : "RBF"}`, margin + 10, margin + 40)
-  if (kernel >= 0.5) ctx.fillText(`Gamma: ${gamma.toFixed(1)}`, margin + 10, margin + 60)
-
-  const errors = points.filter(p => predict(p.x, p.y) !== p.label).length
-  ctx.fillText(`Errors: ${errors}`, margin + 10, margin + (kernel < 0.5 ? 60 : 80))
+  lines.forEach((line, i) => ctx.fillText(line, margin + 10, margin + 20 * (i + 1)))
 }
 
 
 export default function SVMPage() {
-  const [params, setParams] = useState({
+  const [params, setParams] = useUrlState({
     c: 1.0,
-    kernel: 1,
+    kernel: "rbf",
     gamma: 0.5,
+    degree: 3,
+    coef0: 1,
+    expression: DEFAULT_EXPRESSION,
     noise: 0.1,
+  }, {
+    c: { min: 0.1, max: 2 },
+    kernel: Object.keys(KERNEL_NAMES),
+    gamma: { min: 0.1, max: 10 },
+    degree: { min: 1, max: 6, integer: true },
+    coef0: { min: -2, max: 2 },
+    noise: { min: 0, max: 0.3 },
   })
+  const [seed, setSeed] = useSeed()
+
+  const [imported, setImported] = useState<ImportedDataset | null>(null)
+  const [generatorSettings, setGeneratorSettings, generated] = useGeneratedDataset(seed)
+  // Imported data takes precedence over the shared generator
+  const dataset = imported ?? generated
+  const { points: sampled } = useSVMData(params, seed)
+  // Imported and generated data are scaled from [-1, 1] to the generator's [-2, 2]; the first class is the negative one
+  const basePoints = useMemo<LabeledPoint[]>(
+    () =>
+      dataset
+        ? dataset.points.map((p) => ({ x: p.x * 2, y: p.y * 2, label: p.label === 0 ? 0 : 1 }))
+        : sampled,
+    [dataset, sampled]
+  )
+  const [points, setPoints] = useEditablePoints(basePoints)
+  const fitPoints = useDebouncedValue(points, REFIT_DELAY)
+
+  const kernel = kernelOf(params.kernel)
+
+  // Validate the custom expression up front; training falls back to the linear kernel while it's invalid
+  const expressionError = useMemo(() => {
+    if (kernel !== "custom") return null
+    try {
+      parseKernelExpression(params.expression)
+      return null
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err)
+    }
+  }, [kernel, params.expression])
+
+  const { model, steps } = useMemo(() => {
+    const steps: SMOStep[] = []
+    const model = fitSVM(
+      fitPoints,
+      {
+        c: params.c,
+        kernel: expressionError ? "linear" : kernel,
+        gamma: params.gamma,
+        degree: params.degree,
+        coef0: params.coef0,
+        expression: params.expression,
+      },
+      (step) => steps.push(step) < MAX_RECORDED_STEPS
+    )
+    return { model, steps }
+  }, [fitPoints, params.c, kernel, params.gamma, params.degree, params.coef0, params.expression, expressionError])
+
+  // Playback position (0 = untrained, steps.length = fitted); resets whenever the fit changes
+  const [playback, setPlayback] = useState<{ steps: SMOStep[]; frame: number } | null>(null)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const frame = playback && playback.steps === steps ? playback.frame : steps.length
+  const setFrame = (frame: number) => setPlayback({ steps, frame })
+
+  useEffect(() => {
+    if (!isPlaying) return
+    if (frame >= steps.length) {
+      setIsPlaying(false)
+      return
+    }
+    const stride = Math.max(1, Math.ceil(steps.length / PLAYBACK_FRAMES))
+    const id = setTimeout(() => setPlayback({ steps, frame: Math.min(steps.length, frame + stride) }), PLAYBACK_INTERVAL)
+    return () => clearTimeout(id)
+  }, [isPlaying, frame, steps])
+
+  const handleAnimateToggle = () => {
+    if (frame >= steps.length) {
+      // Replay from the untrained model
+      setFrame(0)
+      setIsPlaying(true)
+    } else {
+      setIsPlaying((playing) => !playing)
+    }
+  }
 
-  const { points } = useSVMData(params)
+  const step = frame > 0 ? steps[frame - 1] : null
+  const shownModel = useMemo(
+    () => (frame >= steps.length ? model : modelAtStep(model, steps, frame)),
+    [model, steps, frame]
+  )
 
   const paramControls = [
     { name: "c", label: "C (Regularization)", min: 0.1, max: 2, step: 0.05, defaultValue: 1.0 },
-    { name: "kernel", label: "Kernel Type", min: 0, max: 1, step: 1, defaultValue: 1 },
-    { name: "gamma", label: "Gamma (RBF Kernel)", min: 0.1, max: 10, step: 0.1, defaultValue: 0.5 },
+    { name: "gamma", label: "Gamma", min: 0.1, max: 10, step: 0.1, defaultValue: 0.5 },
+    { name: "degree", label: "Degree", min: 1, max: 6, step: 1, defaultValue: 3 },
+    { name: "coef0", label: "Coef0", min: -2, max: 2, step: 0.1, defaultValue: 1 },
     { name: "noise", label: "Data Noise", min: 0, max: 0.3, step: 0.05, defaultValue: 0.1 },
-  ]
+  ].filter(
+    // Kernel hyperparameters only show for the kernel that uses them
+    (control) => !["gamma", "degree", "coef0"].includes(control.name) || KERNEL_PARAMS[kernel].includes(control.name)
+  )
 
   return (
     <div className="space-y-8">
@@ -226,12 +399,114 @@ export default function SVMPage() {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         <div className="lg:col-span-2">
           <VisualizationCanvas
-            renderFunction={(ctx, w, h) => renderSVM(ctx, w, h, params, points)}
+            renderFunction={(ctx, w, h) =>
+              renderSVM(
+                ctx,
+                w,
+                h,
+                params,
+                shownModel,
+                frame < steps.length ? { step, frame, total: steps.length } : undefined
+              )
+            }
             params={params}
-            setParams={setParams}
+            setParams={(next) => setParams((p) => ({ ...p, ...next }))}
             paramControls={paramControls}
             height={500}
-          />
+            animate={true}
+            currentFrame={frame}
+            onAnimateToggle={handleAnimateToggle}
+            playing={isPlaying}
+          >
+            <PointEditor
+              points={points}
+              onChange={(edited) => setPoints(edited.map(({ x, y, label }) => ({ x, y, label: label ?? 0 })))}
+              toCanvas={toCanvas}
+              fromCanvas={fromCanvas}
+              palette={["#f87171", "#4ade80"]}
+            />
+          </VisualizationCanvas>
+          <div className="mt-4 space-y-2">
+            <Label className="text-sm font-medium">Kernel</Label>
+            <Select value={kernel} onValueChange={(value) => setParams((p) => ({ ...p, kernel: value }))}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(KERNEL_NAMES) as KernelType[]).map((k) => (
+                  <SelectItem key={k} value={k}>
+                    {KERNEL_NAMES[k]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {kernel === "custom" && (
+              <>
+                <Input
+                  value={params.expression}
+                  onChange={(e) => setParams((p) => ({ ...p, expression: e.target.value }))}
+                  spellCheck={false}
+                  className="font-mono"
+                />
+                {expressionError ? (
+                  <p className="text-sm text-red-400">{expressionError}. Using the linear kernel until it parses.</p>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Use x·y (or dot), ||x−y||² (or dist), gamma, coef0, + − * / ^ and exp, log, sqrt, abs, tanh, sin,
+                    cos. Kernels that aren&apos;t positive semi-definite may not converge.
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+          <div className="mt-4 space-y-2">
+            <div className="flex justify-between">
+              <label className="text-sm font-medium">SMO Step</label>
+              <span className="text-sm text-muted-foreground">
+                {frame} / {steps.length}
+              </span>
+            </div>
+            <Slider
+              value={[frame]}
+              min={0}
+              max={steps.length}
+              step={1}
+              onValueChange={([value]) => {
+                setIsPlaying(false)
+                setFrame(value)
+              }}
+            />
+            <p className="text-sm text-muted-foreground">
+              {step ? (
+                <>
+                  Optimized α<sub>{step.i1}</sub>: {step.previous[0].toFixed(3)} → {step.next[0].toFixed(3)}{" "}
+                  and α<sub>{step.i2}</sub>: {step.previous[1].toFixed(3)} → {step.next[1].toFixed(3)}. Bias{" "}
+                  {step.bias.toFixed(3)} ({step.biasDelta >= 0 ? "+" : ""}
+                  {step.biasDelta.toFixed(3)}), dual objective {step.objective.toFixed(3)}, {step.violations} KKT
+                  violation{step.violations === 1 ? "" : "s"} left.
+                </>
+              ) : (
+                <>All α = 0 and b = 0: no support vectors yet.</>
+              )}
+            </p>
+            {steps.length < model.iterations && (
+              <p className="text-sm text-muted-foreground">
+                Only the first {steps.length} of {model.iterations} updates are recorded; the last position shows the
+                fitted model.
+              </p>
+            )}
+          </div>
+          <div className="mt-4">
+            <SeedControl seed={seed} onSeedChange={setSeed} />
+          </div>
+          <div className="mt-4">
+            <DatasetGenerator
+              settings={generatorSettings}
+              onChange={setGeneratorSettings}
+              overridden={!!imported}
+            />
+            <DatasetImport dataset={imported} onImport={setImported} />
+          </div>
         </div>
 
         <aside className="space-y-6">
@@ -243,21 +518,55 @@ export default function SVMPage() {
           <Section title="Kernel Trick">
             <ul className="list-disc list-inside space-y-2">
               <li><strong>Linear:</strong> K(x,y) = x·y</li>
+              <li><strong>Polynomial:</strong> K(x,y) = (γ x·y + r)<sup>d</sup></li>
               <li><strong>RBF:</strong> K(x,y) = exp(-γ||x−y||²)</li>
+              <li><strong>Sigmoid:</strong> K(x,y) = tanh(γ x·y + r)</li>
+              <li><strong>Custom:</strong> any expression in x·y and ||x−y||²</li>
             </ul>
           </Section>
 
+          <Section title="Training (SMO)">
+            Sequential Minimal Optimization solves the soft-margin dual by repeatedly picking a pair of multipliers
+            that violate the KKT conditions and optimizing them analytically, keeping 0 ≤ α ≤ C.
+            <br/><br/>
+            {model.converged ? "Converged" : "Stopped"} after {model.iterations} pair updates with bias b = {model.bias.toFixed(3)} and dual objective{" "}
+            {model.objective.toFixed(3)}. Press Animate or drag the step slider to replay the updates: the pair being
+            optimized is circled in yellow.
+            {model.supportVectors.length > 0 && (
+              <table className="mt-4 w-full text-sm">
+                <thead>
+                  <tr className="text-left">
+                    <th className="font-medium">Point</th>
+                    <th className="font-medium">Class</th>
+                    <th className="font-medium text-right">α</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {model.supportVectors.map((i) => (
+                    <tr key={i}>
+                      <td>({model.points[i].x.toFixed(2)}, {model.points[i].y.toFixed(2)})</td>
+                      <td>{model.points[i].label === 1 ? "+1" : "−1"}</td>
+                      <td className="text-right">{model.alphas[i].toFixed(3)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </Section>
+
           <Section title="Interactive Controls">
-            There a total of 15 points in the dataset.
+            There a total of {points.length} points in the dataset.
             <br/><br/>
             <ul className="list-disc list-inside space-y-2">
               <li><strong>C:</strong> Regularization trade-off</li>
-              <li><strong>Kernel:</strong> Linear (0) or RBF (1)</li>
-              <li><strong>Gamma:</strong> Complexity of RBF boundary</li>
+              <li><strong>Kernel:</strong> Linear, polynomial, RBF, sigmoid or a custom expression</li>
+              <li><strong>Gamma:</strong> Complexity of the boundary (non-linear kernels)</li>
+              <li><strong>Degree / Coef0:</strong> Polynomial degree d and offset r</li>
               <li><strong>Noise:</strong> Adds classification challenge</li>
             </ul>
             <br/>
-            Note: The points that have a white border are the support vectors.
+            Note: The points that have a white border are the support vectors. A dashed border means α = C: the
+            point sits inside the margin or on the wrong side of it.
           </Section>
 
           <Section title="Applications">
@@ -0,0 +1,79 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { GENERATORS, type GeneratorKind } from "@/lib/data/generators"
+import type { GeneratorSettings } from "@/hooks/use-generated-dataset"
+
+interface DatasetGeneratorProps {
+  settings: GeneratorSettings
+  onChange: (settings: GeneratorSettings) => void
+  // Label for the page's own data in the dropdown
+  defaultLabel?: string
+  // Shown when imported data currently takes precedence
+  overridden?: boolean
+}
+
+const DEFAULT = "default"
+
+export default function DatasetGenerator({
+  settings,
+  onChange,
+  defaultLabel = "Page default",
+  overridden = false,
+}: DatasetGeneratorProps) {
+  const generator = Object.hasOwn(GENERATORS, settings.dataset) ? GENERATORS[settings.dataset as GeneratorKind] : null
+
+  const sliders: { key: keyof GeneratorSettings; label: string; min: number; max: number; step: number }[] = [
+    { key: "dataSamples", label: "Samples", min: 20, max: 500, step: 10 },
+    { key: "dataNoise", label: "Noise", min: 0, max: 0.5, step: 0.01 },
+    { key: "dataImbalance", label: "Class Imbalance", min: 0, max: 0.9, step: 0.05 },
+    ...(generator?.classes === null ? [{ key: "dataClasses" as const, label: "Classes", min: 2, max: 5, step: 1 }] : []),
+  ]
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Dataset</Label>
+        <Select
+          value={generator ? settings.dataset : DEFAULT}
+          onValueChange={(dataset) => onChange({ ...settings, dataset })}
+        >
+          <SelectTrigger className="h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT}>{defaultLabel}</SelectItem>
+            {(Object.keys(GENERATORS) as GeneratorKind[]).map((kind) => (
+              <SelectItem key={kind} value={kind}>
+                {GENERATORS[kind].name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {generator &&
+        sliders.map(({ key, label, min, max, step }) => (
+          <div key={key} className="space-y-2">
+            <div className="flex justify-between">
+              <Label className="text-sm">{label}</Label>
+              <span className="text-sm text-muted-foreground">{settings[key]}</span>
+            </div>
+            <Slider
+              min={min}
+              max={max}
+              step={step}
+              value={[settings[key] as number]}
+              onValueChange={([value]) => onChange({ ...settings, [key]: value })}
+            />
+          </div>
+        ))}
+
+      {generator && overridden && (
+        <p className="text-sm text-muted-foreground">Imported data is in use; clear it to see this dataset.</p>
+      )}
+    </div>
+  )
+}
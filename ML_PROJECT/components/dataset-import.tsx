@@ -0,0 +1,168 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Upload, X } from "lucide-react"
+import { cn } from "@/lib/utils"
+import {
+  defaultMapping,
+  numericColumns,
+  parseDataset,
+  toDataset,
+  type ColumnMapping,
+  type DataTable,
+  type ImportedDataset,
+} from "@/lib/data/import"
+
+const NO_LABEL = "__none__"
+
+interface DatasetImportProps {
+  dataset: ImportedDataset | null
+  onImport: (dataset: ImportedDataset | null) => void
+  // Whether the page uses a label column at all (clustering pages ignore it)
+  useLabels?: boolean
+  // 1D pages only read the x column
+  dimensions?: 1 | 2
+}
+
+export default function DatasetImport({ dataset, onImport, useLabels = true, dimensions = 2 }: DatasetImportProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [table, setTable] = useState<DataTable | null>(null)
+  const [fileName, setFileName] = useState("")
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [normalize, setNormalize] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [dragging, setDragging] = useState(false)
+
+  const loadFile = async (file: File) => {
+    try {
+      const parsed = parseDataset(await file.text(), file.name)
+      setTable(parsed)
+      setMapping(defaultMapping(parsed))
+      setFileName(file.name)
+      setError(null)
+    } catch (err) {
+      setTable(null)
+      setMapping(null)
+      setError(err instanceof Error ? err.message : "Could not read the file")
+    }
+  }
+
+  const handleApply = () => {
+    if (!table || !mapping) return
+    const used = {
+      ...mapping,
+      y: dimensions === 1 ? mapping.x : mapping.y,
+      label: useLabels ? mapping.label : undefined,
+    }
+    try {
+      onImport(toDataset(table, used, normalize, fileName))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not build the dataset")
+    }
+  }
+
+  const numeric = table ? numericColumns(table) : []
+
+  const columnSelect = (key: keyof ColumnMapping, label: string, options: string[], allowNone = false) => (
+    <div className="space-y-1">
+      <Label className="text-sm">{label}</Label>
+      <Select
+        value={mapping?.[key] ?? NO_LABEL}
+        onValueChange={(value) => setMapping((m) => m && { ...m, [key]: value === NO_LABEL ? undefined : value })}
+      >
+        <SelectTrigger className="h-9">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {allowNone && <SelectItem value={NO_LABEL}>None</SelectItem>}
+          {options.map((c) => (
+            <SelectItem key={c} value={c}>
+              {c}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Import Dataset</h3>
+        {dataset && (
+          <Button variant="ghost" size="sm" onClick={() => onImport(null)}>
+            <X className="mr-2 h-4 w-4" />
+            Use generated data
+          </Button>
+        )}
+      </div>
+
+      <div
+        className={cn(
+          "flex cursor-pointer flex-col items-center justify-center rounded-md border border-dashed p-6 text-sm text-muted-foreground transition-colors",
+          dragging && "border-primary bg-primary/10",
+        )}
+        onClick={() => inputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault()
+          setDragging(true)
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault()
+          setDragging(false)
+          const file = e.dataTransfer.files[0]
+          if (file) loadFile(file)
+        }}
+      >
+        <Upload className="mb-2 h-5 w-5" />
+        {fileName ? `${fileName} (${table?.rows.length ?? 0} rows)` : "Drop a CSV or JSON file here, or click to browse"}
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.tsv,.txt,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) loadFile(file)
+            e.target.value = ""
+          }}
+        />
+      </div>
+
+      {table && mapping && (
+        <div className="space-y-4">
+          <div className={cn("grid gap-3", dimensions + (useLabels ? 1 : 0) === 3 ? "grid-cols-3" : "grid-cols-2")}>
+            {columnSelect("x", "X column", numeric)}
+            {dimensions === 2 && columnSelect("y", "Y column", numeric)}
+            {useLabels && columnSelect("label", "Label column", table.columns, true)}
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Switch id="normalize" checked={normalize} onCheckedChange={setNormalize} />
+              <Label htmlFor="normalize" className="text-sm">
+                Normalize to [-1, 1]
+              </Label>
+            </div>
+            <Button size="sm" onClick={handleApply}>
+              Use dataset
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {dataset && (
+        <p className="text-sm text-muted-foreground">
+          Showing {dataset.points.length} points from {dataset.name}
+          {dataset.classes.length > 0 && ` (${dataset.classes.length} classes: ${dataset.classes.join(", ")})`}
+        </p>
+      )}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  )
+}
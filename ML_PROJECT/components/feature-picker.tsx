@@ -0,0 +1,42 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+
+interface FeaturePickerProps {
+  // Feature key -> display name, in display order
+  features: Record<string, string>
+  selected: string[]
+  onChange: (selected: string[]) => void
+  // Fewest features that may stay selected; a tree needs at least one candidate feature
+  minSelected?: number
+  // Shown instead of the toggles when the current data has its own fixed features
+  disabledReason?: string
+}
+
+export default function FeaturePicker({ features, selected, onChange, minSelected = 1, disabledReason }: FeaturePickerProps) {
+  return (
+    <div className="space-y-2 rounded-lg border p-4">
+      <Label className="text-sm font-medium">Split Features</Label>
+      {disabledReason ? (
+        <p className="text-sm text-muted-foreground">{disabledReason}</p>
+      ) : (
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          className="flex-wrap justify-start"
+          value={selected}
+          // The last features can't be switched off once only minSelected are left
+          onValueChange={(value) => value.length >= minSelected && onChange(value)}
+        >
+          {Object.entries(features).map(([key, name]) => (
+            <ToggleGroupItem key={key} value={key} aria-label={`Split on ${name}`}>
+              {name}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,178 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { Eraser, Move, Plus } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { Point } from "@/lib/ml/types"
+
+export type CanvasSize = { width: number; height: number }
+
+export type EditablePoint = Point & { label?: number }
+
+type EditMode = "add" | "move" | "erase"
+
+const HIT_RADIUS = 8
+
+interface PointEditorProps<T extends EditablePoint> {
+  points: T[]
+  onChange: (points: EditablePoint[]) => void
+  // Data <-> CSS pixel transforms, relative to the editor's own box
+  toCanvas: (p: Point, size: CanvasSize) => Point
+  fromCanvas: (p: Point, size: CanvasSize) => Point
+  // Class colors indexed by label; omit for unlabeled data
+  palette?: string[]
+}
+
+// Transparent editing layer; place it inside a `relative` container on top of the canvas
+export default function PointEditor<T extends EditablePoint>({
+  points,
+  onChange,
+  toCanvas,
+  fromCanvas,
+  palette,
+}: PointEditorProps<T>) {
+  const overlayRef = useRef<HTMLDivElement>(null)
+  const [mode, setMode] = useState<EditMode>("add")
+  const [activeLabel, setActiveLabel] = useState(0)
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [box, setBox] = useState<{ start: Point; end: Point } | null>(null)
+
+  const locate = (e: React.PointerEvent) => {
+    const rect = overlayRef.current!.getBoundingClientRect()
+    return {
+      pos: { x: e.clientX - rect.left, y: e.clientY - rect.top },
+      size: { width: rect.width, height: rect.height },
+    }
+  }
+
+  const hitTest = (pos: Point, size: CanvasSize) => {
+    let best = -1
+    let bestDist = HIT_RADIUS
+    points.forEach((p, i) => {
+      const c = toCanvas(p, size)
+      const dist = Math.hypot(c.x - pos.x, c.y - pos.y)
+      if (dist <= bestDist) {
+        best = i
+        bestDist = dist
+      }
+    })
+    return best
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const { pos, size } = locate(e)
+    const hit = hitTest(pos, size)
+
+    if (mode === "erase") {
+      e.currentTarget.setPointerCapture(e.pointerId)
+      setBox({ start: pos, end: pos })
+    } else if (hit >= 0) {
+      e.currentTarget.setPointerCapture(e.pointerId)
+      setDragIndex(hit)
+    } else if (mode === "add") {
+      const p = fromCanvas(pos, size)
+      onChange([...points, palette ? { ...p, label: activeLabel } : p])
+    }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragIndex === null && !box) return
+    const { pos, size } = locate(e)
+
+    if (dragIndex !== null) {
+      const p = fromCanvas(pos, size)
+      onChange(points.map((point, i) => (i === dragIndex ? { ...point, x: p.x, y: p.y } : point)))
+    } else if (box) {
+      setBox({ ...box, end: pos })
+    }
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (box) {
+      const { size } = locate(e)
+      const [x0, x1] = [box.start.x, box.end.x].sort((a, b) => a - b)
+      const [y0, y1] = [box.start.y, box.end.y].sort((a, b) => a - b)
+      const isClick = x1 - x0 < 3 && y1 - y0 < 3
+
+      if (isClick) {
+        const hit = hitTest(box.start, size)
+        if (hit >= 0) onChange(points.filter((_, i) => i !== hit))
+      } else {
+        onChange(
+          points.filter((p) => {
+            const c = toCanvas(p, size)
+            return c.x < x0 || c.x > x1 || c.y < y0 || c.y > y1
+          }),
+        )
+      }
+    }
+    setDragIndex(null)
+    setBox(null)
+  }
+
+  return (
+    <div
+      ref={overlayRef}
+      className={cn("absolute inset-0 touch-none", mode === "move" ? "cursor-move" : "cursor-crosshair")}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      {box && (
+        <div
+          className="pointer-events-none absolute border border-dashed border-red-400 bg-red-400/10"
+          style={{
+            left: Math.min(box.start.x, box.end.x),
+            top: Math.min(box.start.y, box.end.y),
+            width: Math.abs(box.end.x - box.start.x),
+            height: Math.abs(box.end.y - box.start.y),
+          }}
+        />
+      )}
+
+      <div
+        className="absolute right-2 top-2 flex items-center gap-2 rounded-md border bg-black/70 p-1 backdrop-blur-sm"
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={mode}
+          onValueChange={(value) => value && setMode(value as EditMode)}
+        >
+          <ToggleGroupItem value="add" aria-label="Add points" title="Click to add points">
+            <Plus className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="move" aria-label="Move points" title="Drag points to move them">
+            <Move className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="erase" aria-label="Erase points" title="Click a point or drag a box to delete">
+            <Eraser className="h-4 w-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
+
+        {palette && (
+          <div className="flex items-center gap-1 border-l pl-2">
+            {palette.map((color, label) => (
+              <button
+                key={label}
+                type="button"
+                aria-label={`Class ${label}`}
+                className={cn(
+                  "h-5 w-5 rounded-full border-2",
+                  activeLabel === label ? "border-white" : "border-transparent opacity-60",
+                )}
+                style={{ backgroundColor: color }}
+                onClick={() => {
+                  setActiveLabel(label)
+                  setMode("add")
+                }}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
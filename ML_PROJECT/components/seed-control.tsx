@@ -0,0 +1,36 @@
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Dices } from "lucide-react"
+import { randomSeed } from "@/lib/ml/random"
+
+interface SeedControlProps {
+  seed: number
+  onSeedChange: (seed: number) => void
+}
+
+export default function SeedControl({ seed, onSeedChange }: SeedControlProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <Label htmlFor="seed" className="text-sm font-medium">
+        Seed
+      </Label>
+      <Input
+        id="seed"
+        type="number"
+        min={0}
+        step={1}
+        value={seed}
+        onChange={(e) => {
+          const value = Math.floor(Number(e.target.value))
+          if (Number.isFinite(value) && value >= 0) onSeedChange(value)
+        }}
+        className="h-9 w-32"
+      />
+      <Button variant="outline" size="sm" onClick={() => onSeedChange(randomSeed())}>
+        <Dices className="mr-2 h-4 w-4" />
+        Re-roll
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+"use client"
+
+import * as React from "react"
+import Tree, { type CustomNodeElementProps, type RawNodeDatum, type TreeLinkDatum } from "react-d3-tree"
+import type { TreeNode } from "@/lib/ml/decision-tree"
+
+interface TreeDiagramProps {
+  tree: TreeNode
+  featureNames: string[]
+  // Empty for regression trees, whose leaves show the predicted value instead
+  classNames: string[]
+  classColor: (label: number) => string
+  // Border color of leaf cards
+  leafColor: (node: TreeNode) => string
+  // Nodes drawn in yellow, e.g. a sample's decision path
+  highlighted?: TreeNode[]
+  onNodeHover?: (node: TreeNode | null) => void
+  height?: number
+  // Smaller cards for the forest's grid of trees
+  compact?: boolean
+}
+
+// "Petal Length" -> "PL", single words are kept as they are
+const abbreviate = (name: string) => {
+  const words = name.split(" ")
+  return words.length > 1 ? words.map((w) => w[0]).join("") : name
+}
+
+const SPLIT_COLOR = "#a855f7"
+const HIGHLIGHT_COLOR = "yellow"
+
+// react-d3-tree copies the data, so nodes are keyed by their path from the root ("", "0", "01", ...)
+function toDatum(node: TreeNode, id: string, nodes: Map<string, TreeNode>): RawNodeDatum {
+  nodes.set(id, node)
+  return {
+    name: id,
+    children: node.left && node.right ? [toDatum(node.left, `${id}0`, nodes), toDatum(node.right, `${id}1`, nodes)] : undefined,
+  }
+}
+
+// Pan and zoom with the mouse, click a split to collapse or expand its subtree
+export default function TreeDiagram({
+  tree,
+  featureNames,
+  classNames,
+  classColor,
+  leafColor,
+  highlighted = [],
+  onNodeHover,
+  height = 500,
+  compact = false,
+}: TreeDiagramProps) {
+  const containerRef = React.useRef<HTMLDivElement | null>(null)
+  const [width, setWidth] = React.useState(0)
+
+  React.useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const measure = () => setWidth(container.getBoundingClientRect().width)
+    measure()
+    window.addEventListener("resize", measure)
+    return () => window.removeEventListener("resize", measure)
+  }, [])
+
+  // A new tree resets the collapsed state, which is what we want after a retrain
+  const { data, nodes } = React.useMemo(() => {
+    const nodes = new Map<string, TreeNode>()
+    return { data: toDatum(tree, "", nodes), nodes }
+  }, [tree])
+
+  const card = compact ? { width: 130, height: 74 } : { width: 170, height: 96 }
+
+  const pathClass = ({ target }: TreeLinkDatum) => {
+    const node = nodes.get(target.data.name)
+    return node && highlighted.includes(node) ? "tree-link tree-link-active" : "tree-link"
+  }
+
+  const renderNode = ({ nodeDatum, toggleNode }: CustomNodeElementProps) => {
+    const node = nodes.get(nodeDatum.name)
+    if (!node) return <g />
+    const isLeaf = !node.left || !node.right
+    const active = highlighted.includes(node)
+    const collapsed = !isLeaf && nodeDatum.__rd3t.collapsed
+    const counts = classNames.map((_, c) => node.counts[c] ?? 0)
+    const subset = node.candidates.length > 0 && node.candidates.length < featureNames.length
+
+    const title = !isLeaf
+      ? `${featureNames[node.feature!]} ≤ ${node.threshold!.toFixed(2)}`
+      : classNames.length > 0
+        ? `→ ${classNames[node.value]}`
+        : `ŷ = ${node.value.toFixed(2)}`
+
+    return (
+      <g>
+        <foreignObject x={-card.width / 2} y={-card.height / 2} width={card.width} height={card.height}>
+          <div
+            className="flex h-full flex-col justify-center gap-0.5 rounded-md bg-neutral-900 px-2 text-white"
+            style={{
+              border: `2px solid ${active ? HIGHLIGHT_COLOR : isLeaf ? leafColor(node) : SPLIT_COLOR}`,
+              fontSize: compact ? 10 : 12,
+              cursor: isLeaf ? "default" : "pointer",
+            }}
+            onClick={isLeaf ? undefined : toggleNode}
+            onMouseEnter={() => onNodeHover?.(node)}
+            onMouseLeave={() => onNodeHover?.(null)}
+          >
+            <div className="flex justify-between gap-1 font-semibold">
+              <span className="truncate capitalize">{title}</span>
+              {collapsed && <span className="text-neutral-400">+</span>}
+            </div>
+            <div className="text-neutral-400">
+              impurity {(node.impurity ?? 0).toFixed(3)} · n = {node.samples}
+            </div>
+            {counts.length > 0 && node.samples > 0 && (
+              <>
+                <div className="flex h-1.5 overflow-hidden rounded-sm">
+                  {counts.map((count, c) => (
+                    <div key={c} style={{ width: `${(count / node.samples) * 100}%`, background: classColor(c) }} />
+                  ))}
+                </div>
+                <div className="text-neutral-400">{counts.join(" / ")}</div>
+              </>
+            )}
+            {subset && (
+              <div className="truncate text-neutral-500">
+                of {node.candidates.map((f) => abbreviate(featureNames[f])).join("·")}
+              </div>
+            )}
+          </div>
+        </foreignObject>
+      </g>
+    )
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className="w-full [&_.tree-link]:!stroke-neutral-500 [&_.tree-link-active]:!stroke-yellow-400 [&_.tree-link-active]:[stroke-width:3]"
+      style={{ height }}
+    >
+      {width > 0 && (
+        <Tree
+          data={data}
+          orientation="vertical"
+          pathFunc="step"
+          translate={{ x: width / 2, y: card.height / 2 + 10 }}
+          nodeSize={{ x: card.width + 20, y: card.height + 40 }}
+          separation={{ siblings: 1, nonSiblings: 1.1 }}
+          zoom={compact ? 0.6 : 0.8}
+          scaleExtent={{ min: 0.2, max: 2 }}
+          collapsible
+          renderCustomNodeElement={renderNode}
+          pathClassFunc={pathClass}
+        />
+      )}
+    </div>
+  )
+}
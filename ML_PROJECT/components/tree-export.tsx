@@ -0,0 +1,161 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { Check, Copy, Download, Upload, X } from "lucide-react"
+import TreeDiagram from "@/components/tree-diagram"
+import { EXPORT_FORMATS, exportTree, parseTreeJSON, type ExportFormat, type TreeModel } from "@/lib/ml/tree-export"
+
+interface TreeExportProps {
+  // The trained tree or forest; null while the data is loading
+  model: TreeModel | null
+  classColor: (label: number) => string
+}
+
+// Leaves of an imported regression tree have no class to take a color from
+const REGRESSION_LEAF_COLOR = "#38bdf8"
+
+export default function TreeExport({ model, classColor }: TreeExportProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [format, setFormat] = useState<ExportFormat>("json")
+  const [copied, setCopied] = useState(false)
+  const [imported, setImported] = useState<{ model: TreeModel; fileName: string } | null>(null)
+  const [importedTree, setImportedTree] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!copied) return
+    const timeout = setTimeout(() => setCopied(false), 2000)
+    return () => clearTimeout(timeout)
+  }, [copied])
+
+  const output = model ? exportTree(model, format) : ""
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(output)
+      setCopied(true)
+    } catch (err) {
+      console.error("Failed to copy export:", err)
+    }
+  }
+
+  const handleDownload = () => {
+    if (!model) return
+    const url = URL.createObjectURL(new Blob([output], { type: "text/plain" }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `${model.format}.${EXPORT_FORMATS[format].extension}`
+    link.click()
+    // Revoking right away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url))
+  }
+
+  const loadFile = async (file: File) => {
+    try {
+      setImported({ model: parseTreeJSON(await file.text()), fileName: file.name })
+      setImportedTree(0)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not read the file")
+    }
+  }
+
+  const shown = imported?.model
+  const shownTree = shown?.trees[Math.min(importedTree, shown.trees.length - 1)]
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <h3 className="text-lg font-semibold">Export &amp; Import</h3>
+
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Format</Label>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          className="flex-wrap justify-start"
+          value={format}
+          onValueChange={(value) => value && setFormat(value as ExportFormat)}
+        >
+          {Object.entries(EXPORT_FORMATS).map(([key, { label }]) => (
+            <ToggleGroupItem key={key} value={key}>
+              {label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <pre className="max-h-80 overflow-auto rounded-md bg-neutral-900 p-3 text-xs text-white">{output}</pre>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={handleCopy} disabled={!model}>
+          {copied ? <Check className="mr-2 h-4 w-4" /> : <Copy className="mr-2 h-4 w-4" />}
+          {copied ? "Copied" : "Copy"}
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleDownload} disabled={!model}>
+          <Download className="mr-2 h-4 w-4" />
+          Download
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()}>
+          <Upload className="mr-2 h-4 w-4" />
+          Import JSON
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) loadFile(file)
+            e.target.value = ""
+          }}
+        />
+      </div>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {shown && shownTree && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              {imported.fileName}: {shown.format === "random-forest" ? `forest of ${shown.trees.length} trees` : "decision tree"} on{" "}
+              {shown.featureNames.join(", ")}
+            </p>
+            <Button variant="ghost" size="sm" onClick={() => setImported(null)}>
+              <X className="mr-2 h-4 w-4" />
+              Close
+            </Button>
+          </div>
+          {shown.trees.length > 1 && (
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              className="flex-wrap justify-start"
+              value={String(importedTree)}
+              onValueChange={(value) => value && setImportedTree(Number(value))}
+            >
+              {shown.trees.map((_, t) => (
+                <ToggleGroupItem key={t} value={String(t)}>
+                  Tree {t + 1}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          )}
+          <div className="rounded-lg border bg-black">
+            <TreeDiagram
+              tree={shownTree}
+              featureNames={shown.featureNames}
+              classNames={shown.classNames}
+              classColor={classColor}
+              leafColor={(node) => (shown.classNames.length > 0 ? classColor(node.value) : REGRESSION_LEAF_COLOR)}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
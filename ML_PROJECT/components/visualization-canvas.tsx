@@ -26,6 +26,10 @@ interface VisualizationCanvasProps {
   // New optional props for SOM page
   currentFrame?: number
   onAnimateToggle?: () => void
+  // Play/pause state for external animation; defaults to frame < params.iterations
+  playing?: boolean
+  // Layers drawn over the canvas, e.g. the point editor
+  children?: React.ReactNode
 }
 
 export default function VisualizationCanvas({
@@ -37,6 +41,8 @@ export default function VisualizationCanvas({
   height = 400,
   currentFrame,
   onAnimateToggle,
+  playing,
+  children,
 }: VisualizationCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   // Only use internal state if currentFrame is not provided externally
@@ -138,10 +144,11 @@ export default function VisualizationCanvas({
   return (
     <div className="space-y-6">
       <div
-        className="canvas-container rounded-lg border overflow-hidden bg-black/20 backdrop-blur-sm"
+        className="canvas-container relative rounded-lg border overflow-hidden bg-black/20 backdrop-blur-sm"
         style={{ height: `${height}px` }}
       >
         <canvas ref={canvasRef} className="interactive-canvas" style={{ width: "100%", height: `${height}px` }} />
+        {children}
       </div>
 
       <div className="space-y-4">
@@ -170,7 +177,7 @@ export default function VisualizationCanvas({
 
         {animate && (
           <Button variant="outline" size="sm" onClick={handleAnimateToggle}>
-            {(onAnimateToggle ? (currentFrame < params.iterations) : isAnimating) ? (
+            {(onAnimateToggle ? (playing ?? currentFrame < params.iterations) : isAnimating) ? (
               <>
                 <Pause className="mr-2 h-4 w-4" />
                 Pause
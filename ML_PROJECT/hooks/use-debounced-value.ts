@@ -0,0 +1,11 @@
+import * as React from "react"
+
+// `value` once it has stopped changing for `delay` ms; the first value is returned right away
+export function useDebouncedValue<T>(value: T, delay: number) {
+  const [debounced, setDebounced] = React.useState(value)
+  React.useEffect(() => {
+    const id = setTimeout(() => setDebounced(value), delay)
+    return () => clearTimeout(id)
+  }, [value, delay])
+  return debounced
+}
@@ -0,0 +1,10 @@
+import * as React from "react"
+
+// Local edits layered over generated data. Edits are dropped as soon as `base` changes
+// (new seed, generator settings or import), so `base` must be memoized by the caller.
+export function useEditablePoints<T>(base: T[]) {
+  const [edited, setEdited] = React.useState<{ base: T[]; points: T[] } | null>(null)
+  const points = edited && edited.base === base ? edited.points : base
+  const setPoints = React.useCallback((points: T[]) => setEdited({ base, points }), [base])
+  return [points, setPoints] as const
+}
@@ -0,0 +1,47 @@
+import * as React from "react"
+import { useUrlState, type UrlRules } from "@/hooks/use-url-state"
+import { GENERATORS, generateDataset, type GeneratorKind } from "@/lib/data/generators"
+import type { ImportedDataset } from "@/lib/data/import"
+import { createRandom } from "@/lib/ml/random"
+
+export const DEFAULT_GENERATOR_SETTINGS = {
+  // "default" keeps the page's own data
+  dataset: "default" as string,
+  dataSamples: 200,
+  dataNoise: 0.1,
+  dataImbalance: 0,
+  dataClasses: 3,
+}
+
+export type GeneratorSettings = typeof DEFAULT_GENERATOR_SETTINGS
+
+// The generator sliders' ranges; a link outside them falls back to the defaults
+const GENERATOR_RULES: UrlRules<GeneratorSettings> = {
+  dataset: ["default", ...Object.keys(GENERATORS)],
+  dataSamples: { min: 20, max: 500, integer: true },
+  dataNoise: { min: 0, max: 0.5 },
+  dataImbalance: { min: 0, max: 0.9 },
+  dataClasses: { min: 2, max: 5, integer: true },
+}
+
+// Shared synthetic dataset picker state; the dataset is null while the page default is selected
+export function useGeneratedDataset(seed: number) {
+  const [settings, setSettings] = useUrlState(DEFAULT_GENERATOR_SETTINGS, GENERATOR_RULES)
+
+  const dataset = React.useMemo<ImportedDataset | null>(() => {
+    // Also covers unknown kinds from a hand-edited URL
+    if (!Object.hasOwn(GENERATORS, settings.dataset)) return null
+    return generateDataset(
+      {
+        kind: settings.dataset as GeneratorKind,
+        samples: settings.dataSamples,
+        noise: settings.dataNoise,
+        imbalance: settings.dataImbalance,
+        classes: settings.dataClasses,
+      },
+      createRandom(seed, "dataset"),
+    )
+  }, [settings, seed])
+
+  return [settings, setSettings, dataset] as const
+}
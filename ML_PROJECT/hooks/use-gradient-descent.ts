@@ -0,0 +1,66 @@
+import * as React from "react"
+import type { Point } from "@/lib/ml/types"
+import type { GradientDescentParams, LinearModel } from "@/lib/ml/linear-regression"
+
+type GradientStep = (model: LinearModel, points: Point[], learningRate: number) => LinearModel
+
+type Run = GradientDescentParams & {
+  points: Point[]
+  model: LinearModel
+  iteration: number
+}
+
+const INITIAL_MODEL: LinearModel = { w: 0, b: 0 }
+
+// Training state kept outside the render function. At rest the model is fitted once per
+// data/param change; while animating it advances by a single `step` per animation frame.
+// `points` must be memoized by the caller and `step` should be a module-level function.
+export function useGradientDescent(points: Point[], { learningRate, iterations }: GradientDescentParams, step: GradientStep) {
+  const fitted = React.useMemo(() => {
+    let model = INITIAL_MODEL
+    for (let i = 0; i < iterations; i++) model = step(model, points, learningRate)
+    return model
+  }, [points, learningRate, iterations, step])
+
+  const [run, setRun] = React.useState<Run | null>(null)
+  const [isAnimating, setIsAnimating] = React.useState(false)
+
+  // A run only applies to the data and params it was started with
+  const current =
+    run && run.points === points && run.learningRate === learningRate && run.iterations === iterations ? run : null
+  const model = current ? current.model : fitted
+  const iteration = current ? current.iteration : iterations
+
+  React.useEffect(() => {
+    if (!isAnimating) return
+
+    let id = requestAnimationFrame(function tick() {
+      setRun((prev) =>
+        prev && prev.iteration < prev.iterations
+          ? { ...prev, model: step(prev.model, prev.points, prev.learningRate), iteration: prev.iteration + 1 }
+          : prev
+      )
+      id = requestAnimationFrame(tick)
+    })
+    return () => cancelAnimationFrame(id)
+  }, [isAnimating, step])
+
+  // Stop when the run finishes or the data/params change underneath it
+  React.useEffect(() => {
+    if (isAnimating && (!current || current.iteration >= current.iterations)) setIsAnimating(false)
+  }, [isAnimating, current])
+
+  const toggleAnimation = () => {
+    if (isAnimating) {
+      setIsAnimating(false)
+      return
+    }
+    // Resume a paused run, otherwise replay from the untrained model
+    if (!current || current.iteration >= iterations) {
+      setRun({ points, learningRate, iterations, model: INITIAL_MODEL, iteration: 0 })
+    }
+    setIsAnimating(true)
+  }
+
+  return { model, iteration, isAnimating, toggleAnimation }
+}
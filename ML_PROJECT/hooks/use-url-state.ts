@@ -0,0 +1,69 @@
+import * as React from "react"
+import { DEFAULT_SEED } from "@/lib/ml/random"
+
+type UrlValue = string | number | boolean
+
+export type UrlRange = { min: number; max: number; integer?: boolean }
+
+// Values a key accepts from the query string: a range for numbers, a list of options for strings
+export type UrlRules<T extends Record<string, UrlValue>> = {
+  [K in keyof T]?: T[K] extends number ? UrlRange : T[K] extends string ? readonly string[] : never
+}
+
+function parseValue<V extends UrlValue>(raw: string, fallback: V, rule?: UrlRange | readonly string[]): V {
+  if (typeof fallback === "number") {
+    const n = Number(raw)
+    if (!Number.isFinite(n)) return fallback
+    if (rule && !Array.isArray(rule)) {
+      const { min, max, integer } = rule as UrlRange
+      if (n < min || n > max || (integer && !Number.isInteger(n))) return fallback
+    }
+    return n as V
+  }
+  if (typeof fallback === "boolean") return (raw === "true") as V
+  if (Array.isArray(rule) && !rule.includes(raw)) return fallback
+  return raw as V
+}
+
+// State mirrored into the query string. Only keys that differ from their default are written,
+// and keys owned by other hooks on the same page are left untouched. Values outside `rules`
+// (a stale or hand-edited link) fall back to the default.
+export function useUrlState<T extends Record<string, UrlValue>>(defaults: T, rules: UrlRules<T> = {}) {
+  const [initial] = React.useState(defaults)
+  const [validation] = React.useState(rules)
+  const [state, setState] = React.useState<T>(initial)
+  const restored = React.useRef(false)
+
+  React.useEffect(() => {
+    const query = new URLSearchParams(window.location.search)
+    const fromUrl: Partial<T> = {}
+    for (const key of Object.keys(initial) as (keyof T & string)[]) {
+      const raw = query.get(key)
+      if (raw !== null) fromUrl[key] = parseValue(raw, initial[key], validation[key])
+    }
+    setState((prev) => ({ ...prev, ...fromUrl }))
+  }, [initial, validation])
+
+  React.useEffect(() => {
+    // The first run still holds the defaults; writing them would wipe the incoming link
+    if (!restored.current) {
+      restored.current = true
+      return
+    }
+    const query = new URLSearchParams(window.location.search)
+    for (const key of Object.keys(initial)) {
+      if (state[key] === initial[key]) query.delete(key)
+      else query.set(key, String(state[key]))
+    }
+    const search = query.toString()
+    window.history.replaceState(null, "", `${window.location.pathname}${search ? `?${search}` : ""}`)
+  }, [state, initial])
+
+  return [state, setState] as const
+}
+
+export function useSeed() {
+  const [{ seed }, setState] = useUrlState({ seed: DEFAULT_SEED }, { seed: { min: 0, max: Number.MAX_SAFE_INTEGER, integer: true } })
+  const setSeed = React.useCallback((seed: number) => setState({ seed }), [setState])
+  return [seed, setSeed] as const
+}
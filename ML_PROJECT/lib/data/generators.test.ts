@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest"
+import { classCounts, GENERATORS, generateDataset, type GeneratorKind } from "./generators"
+import { createRandom } from "@/lib/ml/random"
+
+describe("dataset generators", () => {
+  it("splits samples between classes by the imbalance", () => {
+    expect(classCounts(90, 3, 0)).toEqual([30, 30, 30])
+    const [first, second] = classCounts(100, 2, 0.5)
+    expect(first).toBeGreaterThan(second)
+    expect(classCounts(2, 5, 0.9).every((c) => c >= 1)).toBe(true)
+  })
+
+  for (const kind of Object.keys(GENERATORS) as GeneratorKind[]) {
+    it(`generates ${kind} inside the unit square`, () => {
+      const params = { kind, samples: 200, noise: 0.1, imbalance: 0, classes: 3 }
+      const dataset = generateDataset(params, createRandom(1, kind))
+      const labels = new Set(dataset.points.map((p) => p.label))
+      expect(labels.size).toBe(dataset.classes.length)
+      expect(dataset.points.every((p) => Math.abs(p.x) <= 1 && Math.abs(p.y) <= 1)).toBe(true)
+      expect(generateDataset(params, createRandom(1, kind))).toEqual(dataset)
+    })
+  }
+})
@@ -0,0 +1,202 @@
+import type { LabeledPoint, Point, RandomFn } from "@/lib/ml/types"
+import type { ImportedDataset } from "./import"
+
+export type GeneratorKind =
+  | "moons"
+  | "circles"
+  | "blobs"
+  | "anisotropic"
+  | "varied"
+  | "spirals"
+  | "xor"
+  | "checkerboard"
+
+export type GeneratorParams = {
+  kind: GeneratorKind
+  samples: number
+  // Standard deviation of the Gaussian jitter added to every point
+  noise: number
+  // 0 = balanced; each class gets (1 - imbalance) times as many points as the previous one
+  imbalance: number
+  // Only used by the kinds with a variable class count (see GENERATORS)
+  classes: number
+}
+
+// 2x2 covariance matrix [[a, b], [b, d]]
+export type Covariance = [number, number, number]
+
+type Generator = {
+  name: string
+  // Fixed class count, or null when `classes` applies
+  classes: number | null
+  generate: (counts: number[], noise: number, random: RandomFn) => LabeledPoint[]
+}
+
+// Standard normal via Box-Muller
+export function gaussian(random: RandomFn) {
+  const u = 1 - random()
+  const v = random()
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+}
+
+const jitter = (p: Point, noise: number, random: RandomFn) => ({
+  x: p.x + gaussian(random) * noise,
+  y: p.y + gaussian(random) * noise,
+})
+
+const jitterAll = (points: LabeledPoint[], noise: number, random: RandomFn) =>
+  points.map((p) => ({ ...jitter(p, noise, random), label: p.label }))
+
+// Points per class for the requested total and imbalance; every class keeps at least one point
+export function classCounts(samples: number, classes: number, imbalance: number) {
+  const weights = Array.from({ length: classes }, (_, c) => (1 - imbalance) ** c)
+  const total = weights.reduce((a, b) => a + b, 0)
+  return weights.map((w) => Math.max(1, Math.round((samples * w) / total)))
+}
+
+// Gaussian blobs with one center and covariance per class (sampled through the Cholesky factor)
+export function gaussianBlobs(centers: Point[], covariances: Covariance[], counts: number[], random: RandomFn) {
+  const points: LabeledPoint[] = []
+  counts.forEach((count, label) => {
+    const [a, b, d] = covariances[label]
+    const l11 = Math.sqrt(a)
+    const l21 = b / l11
+    const l22 = Math.sqrt(Math.max(0, d - l21 * l21))
+    for (let i = 0; i < count; i++) {
+      const z1 = gaussian(random)
+      const z2 = gaussian(random)
+      points.push({ x: centers[label].x + l11 * z1, y: centers[label].y + l21 * z1 + l22 * z2, label })
+    }
+  })
+  return points
+}
+
+// Class centers spread evenly on a circle
+const ringCenters = (classes: number, radius: number) =>
+  Array.from({ length: classes }, (_, c) => ({
+    x: radius * Math.cos((2 * Math.PI * c) / classes + Math.PI / 2),
+    y: radius * Math.sin((2 * Math.PI * c) / classes + Math.PI / 2),
+  }))
+
+// Uniform points in [-1, 1]^2 labeled by region, rejection-sampled to hit the per-class counts
+function sampleRegions(counts: number[], region: (p: Point) => number, noise: number, random: RandomFn) {
+  const points: LabeledPoint[] = []
+  const remaining = [...counts]
+  const maxAttempts = counts.reduce((a, b) => a + b, 0) * 50
+  for (let attempt = 0; attempt < maxAttempts && remaining.some((r) => r > 0); attempt++) {
+    const p = { x: random() * 2 - 1, y: random() * 2 - 1 }
+    const label = region(p)
+    if (remaining[label] <= 0) continue
+    remaining[label]--
+    points.push({ ...jitter(p, noise, random), label })
+  }
+  return points
+}
+
+export const GENERATORS: Record<GeneratorKind, Generator> = {
+  moons: {
+    name: "Two moons",
+    classes: 2,
+    generate: (counts, noise, random) =>
+      counts.flatMap((count, label) =>
+        Array.from({ length: count }, () => {
+          const t = random() * Math.PI
+          const p = label === 0 ? { x: Math.cos(t), y: Math.sin(t) } : { x: 1 - Math.cos(t), y: 0.5 - Math.sin(t) }
+          return { ...jitter(p, noise, random), label }
+        }),
+      ),
+  },
+  circles: {
+    name: "Concentric circles",
+    classes: 2,
+    generate: (counts, noise, random) =>
+      counts.flatMap((count, label) =>
+        Array.from({ length: count }, () => {
+          const t = random() * 2 * Math.PI
+          const r = label === 0 ? 1 : 0.5
+          return { ...jitter({ x: r * Math.cos(t), y: r * Math.sin(t) }, noise, random), label }
+        }),
+      ),
+  },
+  blobs: {
+    name: "Gaussian blobs",
+    classes: null,
+    generate: (counts, noise, random) =>
+      jitterAll(
+        gaussianBlobs(ringCenters(counts.length, 3), counts.map(() => [0.25, 0, 0.25]), counts, random),
+        noise,
+        random,
+      ),
+  },
+  anisotropic: {
+    name: "Anisotropic blobs",
+    classes: null,
+    // Shared, strongly correlated covariance: the stretched clusters K-Means struggles with
+    generate: (counts, noise, random) =>
+      jitterAll(
+        gaussianBlobs(ringCenters(counts.length, 3), counts.map(() => [0.55, -0.45, 0.45]), counts, random),
+        noise,
+        random,
+      ),
+  },
+  varied: {
+    name: "Varied-density blobs",
+    classes: null,
+    generate: (counts, noise, random) => {
+      const stds = [0.3, 0.8, 1.4, 0.5, 1.1]
+      const covariances = counts.map((_, c): Covariance => {
+        const v = stds[c % stds.length] ** 2
+        return [v, 0, v]
+      })
+      return jitterAll(gaussianBlobs(ringCenters(counts.length, 3.5), covariances, counts, random), noise, random)
+    },
+  },
+  spirals: {
+    name: "Interleaved spirals",
+    classes: null,
+    generate: (counts, noise, random) =>
+      counts.flatMap((count, label) =>
+        Array.from({ length: count }, () => {
+          const t = Math.sqrt(random())
+          const angle = t * 3 * Math.PI + (2 * Math.PI * label) / counts.length
+          return { ...jitter({ x: t * Math.cos(angle), y: t * Math.sin(angle) }, noise, random), label }
+        }),
+      ),
+  },
+  xor: {
+    name: "XOR",
+    classes: 2,
+    generate: (counts, noise, random) => sampleRegions(counts, (p) => (p.x > 0 !== p.y > 0 ? 1 : 0), noise, random),
+  },
+  checkerboard: {
+    name: "Checkerboard",
+    classes: 2,
+    generate: (counts, noise, random) =>
+      sampleRegions(counts, (p) => (Math.floor((p.x + 1) * 2) + Math.floor((p.y + 1) * 2)) % 2, noise, random),
+  },
+}
+
+// Uniform scale into [-1, 1] (keeping the aspect ratio, so circles stay round) with a small border
+function fitToUnitSquare(points: LabeledPoint[], padding = 0.9) {
+  if (points.length === 0) return points
+  const xs = points.map((p) => p.x)
+  const ys = points.map((p) => p.y)
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)]
+  const scale = (2 * padding) / Math.max(maxX - minX, maxY - minY, 1e-9)
+  const cx = (minX + maxX) / 2
+  const cy = (minY + maxY) / 2
+  return points.map((p) => ({ x: (p.x - cx) * scale, y: (p.y - cy) * scale, label: p.label }))
+}
+
+// Same shape as an imported dataset, so pages can feed either through one code path
+export function generateDataset(params: GeneratorParams, random: RandomFn): ImportedDataset {
+  const generator = GENERATORS[params.kind]
+  const classes = generator.classes ?? Math.max(2, Math.round(params.classes))
+  const counts = classCounts(params.samples, classes, params.imbalance)
+  const points = fitToUnitSquare(generator.generate(counts, params.noise, random))
+  return {
+    name: generator.name,
+    points,
+    classes: Array.from({ length: classes }, (_, c) => `Class ${c + 1}`),
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest"
+import { defaultMapping, MAX_IMPORT_POINTS, parseCSV, parseDataset, parseJSON, toDataset } from "./import"
+
+describe("dataset import", () => {
+  it("parses quoted CSV fields and detects the delimiter", () => {
+    const table = parseCSV('x;y;name\n1;2;"a;b"\n3;4;"say ""hi"""\n')
+    expect(table.columns).toEqual(["x", "y", "name"])
+    expect(table.rows).toEqual([
+      ["1", "2", "a;b"],
+      ["3", "4", 'say "hi"'],
+    ])
+    expect(() => parseCSV("x,y\n")).toThrow(/header row/)
+  })
+
+  it("accepts JSON objects or arrays of rows", () => {
+    expect(parseJSON('[{"x":1,"y":2},{"x":3,"y":4,"c":"a"}]')).toEqual({
+      columns: ["x", "y", "c"],
+      rows: [
+        ["1", "2", ""],
+        ["3", "4", "a"],
+      ],
+    })
+    expect(parseDataset('[["x","y"],[1,2]]', "data.txt").rows).toEqual([["1", "2"]])
+  })
+
+  it("maps the first numeric columns to the axes and a text column to the class", () => {
+    const table = parseCSV("species,length,width\nsetosa,1,2\nvirginica,3,6\n")
+    expect(defaultMapping(table)).toEqual({ x: "length", y: "width", label: "species" })
+  })
+
+  it("drops incomplete rows and normalizes to [-1, 1]", () => {
+    const table = parseCSV("x,y,c\n0,0,a\n10,5,b\n,3,a\n5,10,a\n")
+    const dataset = toDataset(table, { x: "x", y: "y", label: "c" }, true, "test")
+    expect(dataset.classes).toEqual(["a", "b"])
+    expect(dataset.points).toEqual([
+      { x: -1, y: -1, label: 0 },
+      { x: 1, y: 0, label: 1 },
+      { x: 0, y: 1, label: 0 },
+    ])
+  })
+
+  it("rejects datasets larger than the pages can fit", () => {
+    const rows = (n: number) => Array.from({ length: n }, (_, i) => [String(i), String(-i)])
+    const limit = toDataset({ columns: ["x", "y"], rows: rows(MAX_IMPORT_POINTS) }, { x: "x", y: "y" }, true, "limit")
+    expect(limit.points).toHaveLength(MAX_IMPORT_POINTS)
+    expect(limit.points.at(-1)).toEqual({ x: 1, y: -1, label: 0 })
+    expect(() =>
+      toDataset({ columns: ["x", "y"], rows: rows(200_000) }, { x: "x", y: "y" }, true, "huge"),
+    ).toThrow(/at most 2000/)
+  })
+})
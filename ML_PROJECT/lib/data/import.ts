@@ -0,0 +1,163 @@
+import type { LabeledPoint } from "@/lib/ml/types"
+
+export type DataTable = {
+  columns: string[]
+  rows: string[][]
+}
+
+export type ColumnMapping = {
+  x: string
+  y: string
+  // Column holding the class; every point gets class 0 when omitted
+  label?: string
+}
+
+export type ImportedDataset = {
+  name: string
+  // Coordinates lie in [-1, 1] when normalized
+  points: LabeledPoint[]
+  classes: string[]
+}
+
+// Largest dataset the pages accept; SVM's kernel matrix and KNN's cross-validation grow quadratically with it
+export const MAX_IMPORT_POINTS = 2000
+
+function detectDelimiter(headerLine: string) {
+  const candidates = [",", ";", "\t"]
+  return candidates.reduce((best, d) => (headerLine.split(d).length > headerLine.split(best).length ? d : best))
+}
+
+// RFC 4180-style CSV: quoted fields may contain delimiters, newlines and doubled quotes
+export function parseCSV(text: string): DataTable {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? ""
+  const delimiter = detectDelimiter(firstLine)
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ""
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        inQuotes = false
+      } else {
+        field += ch
+      }
+    } else if (ch === '"') {
+      inQuotes = true
+    } else if (ch === delimiter) {
+      record.push(field)
+      field = ""
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ""
+    } else {
+      field += ch
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  const nonEmpty = records.filter((r) => r.some((v) => v.trim() !== ""))
+  if (nonEmpty.length < 2) throw new Error("CSV needs a header row and at least one data row")
+
+  const [header, ...rows] = nonEmpty
+  return { columns: header.map((c) => c.trim()), rows: rows.map((r) => r.map((v) => v.trim())) }
+}
+
+// Accepts an array of objects, or an array of arrays whose first entry is the header
+export function parseJSON(text: string): DataTable {
+  const data = JSON.parse(text)
+  if (!Array.isArray(data) || data.length === 0) throw new Error("JSON must be a non-empty array")
+
+  if (Array.isArray(data[0])) {
+    const [header, ...rows] = data as unknown[][]
+    return { columns: header.map(String), rows: rows.map((r) => r.map((v) => String(v ?? ""))) }
+  }
+
+  const columns = [...new Set(data.flatMap((row) => (row && typeof row === "object" ? Object.keys(row) : [])))]
+  if (columns.length === 0) throw new Error("JSON rows must be objects or arrays")
+  return {
+    columns,
+    rows: data.map((row) => columns.map((c) => String(row?.[c] ?? ""))),
+  }
+}
+
+export function parseDataset(text: string, fileName: string): DataTable {
+  const trimmed = text.trim()
+  if (fileName.toLowerCase().endsWith(".json") || trimmed.startsWith("[")) return parseJSON(trimmed)
+  return parseCSV(text)
+}
+
+export function numericColumns(table: DataTable) {
+  return table.columns.filter((_, c) =>
+    table.rows.every((row) => row[c] === undefined || row[c] === "" || Number.isFinite(Number(row[c]))),
+  )
+}
+
+export function defaultMapping(table: DataTable): ColumnMapping {
+  const numeric = numericColumns(table)
+  if (numeric.length < 2) throw new Error("The dataset needs at least two numeric columns")
+
+  const [x, y] = numeric
+  const label =
+    table.columns.find((c) => !numeric.includes(c)) ?? table.columns.filter((c) => c !== x && c !== y).at(-1)
+  return { x, y, label }
+}
+
+// Smallest and largest value, without spreading the column into Math.min/max arguments
+function extent(values: number[]): [number, number] {
+  let min = Infinity
+  let max = -Infinity
+  for (const v of values) {
+    if (v < min) min = v
+    if (v > max) max = v
+  }
+  return [min, max]
+}
+
+const rescale = (value: number, min: number, max: number) => (max === min ? 0 : ((value - min) / (max - min)) * 2 - 1)
+
+// Rows with a missing or non-numeric coordinate are dropped; more than MAX_IMPORT_POINTS remaining is an error
+export function toDataset(table: DataTable, mapping: ColumnMapping, normalize: boolean, name: string): ImportedDataset {
+  const xi = table.columns.indexOf(mapping.x)
+  const yi = table.columns.indexOf(mapping.y)
+  const li = mapping.label ? table.columns.indexOf(mapping.label) : -1
+
+  const classes: string[] = []
+  const points: LabeledPoint[] = []
+  for (const row of table.rows) {
+    const x = Number(row[xi])
+    const y = Number(row[yi])
+    if (row[xi] === "" || row[yi] === "" || !Number.isFinite(x) || !Number.isFinite(y)) continue
+
+    const cls = li >= 0 ? row[li] : ""
+    let label = classes.indexOf(cls)
+    if (label < 0) label = classes.push(cls) - 1
+    points.push({ x, y, label })
+  }
+  if (points.length === 0) throw new Error("No rows have numeric values for both axes")
+  if (points.length > MAX_IMPORT_POINTS) {
+    throw new Error(`The dataset has ${points.length} usable rows; at most ${MAX_IMPORT_POINTS} are supported`)
+  }
+
+  if (normalize) {
+    const [minX, maxX] = extent(points.map((p) => p.x))
+    const [minY, maxY] = extent(points.map((p) => p.y))
+    for (const p of points) {
+      p.x = rescale(p.x, minX, maxX)
+      p.y = rescale(p.y, minY, maxY)
+    }
+  }
+
+  return { name, points, classes: li >= 0 ? classes : [] }
+}
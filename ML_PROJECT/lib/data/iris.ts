@@ -0,0 +1,41 @@
+import type { TabularDataset } from "./tabular"
+
+export type IrisRow = {
+  sepalLength: number
+  sepalWidth: number
+  petalLength: number
+  petalWidth: number
+  species: string
+}
+
+export const IRIS_URL = "/data/irisDataset.json"
+
+export const IRIS_CLASSES = ["setosa", "versicolor", "virginica"]
+
+export type IrisFeature = "sepalLength" | "sepalWidth" | "petalLength" | "petalWidth"
+
+export const IRIS_FEATURE_NAMES: Record<IrisFeature, string> = {
+  sepalLength: "Sepal Length",
+  sepalWidth: "Sepal Width",
+  petalLength: "Petal Length",
+  petalWidth: "Petal Width",
+}
+
+export const IRIS_FEATURES = Object.keys(IRIS_FEATURE_NAMES) as IrisFeature[]
+
+// Comma-separated feature keys (as stored in the URL), in canonical order; unknown keys are dropped
+export function parseIrisFeatures(value: string): IrisFeature[] {
+  const keys = value.split(",").map((key) => key.trim())
+  return IRIS_FEATURES.filter((feature) => keys.includes(feature))
+}
+
+export function irisToTabular(rows: IrisRow[], features: IrisFeature[] = IRIS_FEATURES): TabularDataset {
+  return {
+    samples: rows.map((row) => ({
+      features: features.map((f) => row[f]),
+      label: IRIS_CLASSES.indexOf(row.species),
+    })),
+    featureNames: features.map((f) => IRIS_FEATURE_NAMES[f]),
+    classNames: IRIS_CLASSES,
+  }
+}
@@ -0,0 +1,56 @@
+import type { Sample } from "@/lib/ml/decision-tree"
+import type { RandomFn } from "@/lib/ml/types"
+import { gaussian } from "./generators"
+
+export type RegressionKind = "sine" | "steps" | "ripple"
+
+export type RegressionDataset = {
+  name: string
+  // Samples carry the numeric target in `label`
+  samples: Sample[]
+  featureNames: string[]
+  targetName: string
+}
+
+type RegressionGenerator = {
+  name: string
+  featureNames: string[]
+  target: (features: number[]) => number
+}
+
+export const REGRESSION_GENERATORS: Record<RegressionKind, RegressionGenerator> = {
+  sine: {
+    name: "Noisy sine (1D)",
+    featureNames: ["x"],
+    target: ([x]) => Math.sin(x * Math.PI),
+  },
+  steps: {
+    name: "Staircase (1D)",
+    featureNames: ["x"],
+    target: ([x]) => Math.floor((x + 1) * 2) / 2 - 0.75,
+  },
+  ripple: {
+    name: "Ripple surface (2D)",
+    featureNames: ["x", "y"],
+    target: ([x, y]) => Math.cos(Math.PI * Math.hypot(x, y)),
+  },
+}
+
+// Features uniform in [-1, 1], target = f(features) + Gaussian noise
+export function generateRegression(
+  kind: RegressionKind,
+  samples: number,
+  noise: number,
+  random: RandomFn,
+): RegressionDataset {
+  const generator = REGRESSION_GENERATORS[kind]
+  return {
+    name: generator.name,
+    samples: Array.from({ length: samples }, () => {
+      const features = generator.featureNames.map(() => random() * 2 - 1)
+      return { features, label: generator.target(features) + gaussian(random) * noise }
+    }),
+    featureNames: generator.featureNames,
+    targetName: "target",
+  }
+}
@@ -0,0 +1,19 @@
+import type { Sample } from "@/lib/ml/decision-tree"
+import type { ImportedDataset } from "./import"
+
+// Feature-vector data for the tree pages
+export type TabularDataset = {
+  samples: Sample[]
+  featureNames: string[]
+  classNames: string[]
+}
+
+// 2D point data (imported or generated) as a two-feature table
+export function pointsToTabular(dataset: ImportedDataset): TabularDataset {
+  const classCount = Math.max(dataset.classes.length, ...dataset.points.map((p) => p.label + 1))
+  return {
+    samples: dataset.points.map((p) => ({ features: [p.x, p.y], label: p.label })),
+    featureNames: ["x", "y"],
+    classNames: Array.from({ length: classCount }, (_, c) => dataset.classes[c] || `Class ${c + 1}`),
+  }
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest"
+import { dbscan, NOISE, regionQuery } from "./dbscan"
+
+const grid = (cx: number, cy: number) =>
+  Array.from({ length: 9 }, (_, i) => ({ x: cx + (i % 3) * 0.1, y: cy + Math.floor(i / 3) * 0.1 }))
+
+describe("DBSCAN", () => {
+  it("finds neighbors within eps, excluding the point itself", () => {
+    const points = [{ x: 0, y: 0 }, { x: 0.1, y: 0 }, { x: 1, y: 0 }]
+    expect(regionQuery(points, 0, 0.15)).toEqual([1])
+  })
+
+  it("separates two dense clusters and marks an outlier as noise", () => {
+    const points = [...grid(0, 0), ...grid(3, 3), { x: 10, y: 10 }]
+    const { labels, clusterCount } = dbscan(points, 0.15, 3)
+    expect(clusterCount).toBe(2)
+    expect(new Set(labels.slice(0, 9))).toEqual(new Set([1]))
+    expect(new Set(labels.slice(9, 18))).toEqual(new Set([2]))
+    expect(labels[18]).toBe(NOISE)
+  })
+
+  it("adds border points to a cluster without making them core", () => {
+    // The last point reaches only one corner of the grid
+    const points = [...grid(0, 0), { x: 0.32, y: 0 }]
+    const { labels, core } = dbscan(points, 0.15, 3)
+    expect(labels[9]).toBe(1)
+    expect(core[9]).toBe(false)
+    expect(core[4]).toBe(true)
+  })
+})
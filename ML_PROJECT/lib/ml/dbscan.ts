@@ -0,0 +1,64 @@
+import type { Point } from "./types"
+
+export const NOISE = -1
+const UNVISITED = -2
+
+export type DBSCANResult = {
+  // Cluster ids start at 1; NOISE marks outliers
+  labels: number[]
+  core: boolean[]
+  clusterCount: number
+}
+
+// Indices of the points within `eps` of points[index], excluding the point itself
+export function regionQuery(points: Point[], index: number, eps: number) {
+  const neighbors: number[] = []
+  const p = points[index]
+  for (let i = 0; i < points.length; i++) {
+    if (i === index) continue
+    if (Math.hypot(p.x - points[i].x, p.y - points[i].y) <= eps) neighbors.push(i)
+  }
+  return neighbors
+}
+
+export function dbscan(points: Point[], eps: number, minPts: number): DBSCANResult {
+  const labels = points.map(() => UNVISITED)
+  const core = points.map(() => false)
+  let clusterCount = 0
+
+  for (let i = 0; i < points.length; i++) {
+    if (labels[i] !== UNVISITED) continue
+
+    const neighbors = regionQuery(points, i, eps)
+    if (neighbors.length < minPts) {
+      labels[i] = NOISE
+      continue
+    }
+
+    clusterCount++
+    labels[i] = clusterCount
+    core[i] = true
+
+    const queue = [...neighbors]
+    const queued = new Set(queue)
+    for (let q = 0; q < queue.length; q++) {
+      const j = queue[q]
+      if (labels[j] === NOISE) labels[j] = clusterCount // border point
+      if (labels[j] !== UNVISITED) continue
+
+      labels[j] = clusterCount
+      const jNeighbors = regionQuery(points, j, eps)
+      if (jNeighbors.length < minPts) continue
+
+      core[j] = true
+      for (const n of jNeighbors) {
+        if (!queued.has(n)) {
+          queued.add(n)
+          queue.push(n)
+        }
+      }
+    }
+  }
+
+  return { labels, core, clusterCount }
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest"
+import {
+  buildTree,
+  costComplexityPath,
+  decisionPath,
+  entropy,
+  featureImportances,
+  findBestSplit,
+  gini,
+  gridPaths,
+  mae,
+  mse,
+  predictTree,
+  pruneTree,
+  type Sample,
+  type TreeNode,
+} from "./decision-tree"
+import { createRandom } from "./random"
+
+const leaves = (node: TreeNode): number => (node.left && node.right ? leaves(node.left) + leaves(node.right) : 1)
+
+// Two features; the label depends only on the first, flipped for a share of the samples
+function noisy(n: number, flip: number, seed = 1): Sample[] {
+  const random = createRandom(seed, "tree")
+  return Array.from({ length: n }, () => {
+    const features = [Math.round(random() * 8) / 8, random()]
+    const label = (features[0] > 0.5) !== random() < flip ? 1 : 0
+    return { features, label }
+  })
+}
+
+describe("impurity", () => {
+  it("scores pure and evenly mixed labels", () => {
+    expect(gini([1, 1, 1])).toBe(0)
+    expect(gini([0, 1])).toBe(0.5)
+    expect(entropy([0, 1])).toBe(1)
+    expect(entropy([0, 1, 2, 3])).toBe(2)
+    expect(mse([1, 2, 3])).toBeCloseTo(2 / 3)
+    expect(mae([1, 2, 9])).toBeCloseTo(8 / 3)
+  })
+})
+
+describe("growing", () => {
+  it("splits halfway between the values that separate the classes", () => {
+    const data = [0, 1, 2, 10, 11].map((v, i) => ({ features: [i % 2, v], label: v > 5 ? 1 : 0 }))
+    expect(findBestSplit(data, "gini", 2, [0, 1])).toMatchObject({ feature: 1, threshold: 6 })
+    expect(findBestSplit(data, "gini", 10, [0, 1])).toBeNull()
+  })
+
+  it("fits separable data exactly and credits only the informative feature", () => {
+    const data = noisy(80, 0)
+    const tree = buildTree(data, { maxDepth: 4, minSamplesSplit: 2, criterion: "gini" })
+    expect(data.every((s) => predictTree(tree, s.features) === s.label)).toBe(true)
+    expect(featureImportances(tree, 2)).toEqual([1, 0])
+    const path = decisionPath(tree, data[0].features)
+    expect(path[0]).toBe(tree)
+    expect(path.at(-1)!.left).toBeNull()
+  })
+
+  it("predicts the mean target for regression", () => {
+    const data = [1, 2, 3, 10, 11, 12].map((v, i) => ({ features: [i], label: v }))
+    const tree = buildTree(data, { maxDepth: 1, minSamplesSplit: 2, criterion: "mse" })
+    expect(predictTree(tree, [0])).toBe(2)
+    expect(predictTree(tree, [5])).toBe(11)
+  })
+})
+
+describe("region grid", () => {
+  it("routes each column of a one-feature grid by its own x value", () => {
+    const data = Array.from({ length: 40 }, (_, i) => ({ features: [i / 39], label: Math.sin(i / 6) }))
+    const tree = buildTree(data, { maxDepth: 3, minSamplesSplit: 2, criterion: "mse" })
+    const cells = gridPaths(tree, [0.5], { feature: 0, range: [0, 1] }, null, 20)
+    expect(cells).toHaveLength(20)
+    expect(new Set(cells.map((path) => path.at(-1))).size).toBeGreaterThan(1)
+    cells.forEach((path, col) => expect(path).toEqual(decisionPath(tree, [(col + 0.5) / 20])))
+  })
+
+  it("covers the plane row by row from the top", () => {
+    const tree = buildTree(noisy(80, 0), { maxDepth: 4, minSamplesSplit: 2, criterion: "gini" })
+    const cells = gridPaths(tree, [0, 0], { feature: 0, range: [0, 1] }, { feature: 1, range: [0, 1] }, 10)
+    expect(cells).toHaveLength(100)
+    expect(cells[0]).toEqual(decisionPath(tree, [0.05, 0.95]))
+    expect(cells[99]).toEqual(decisionPath(tree, [0.95, 0.05]))
+  })
+})
+
+describe("cost-complexity pruning", () => {
+  it("walks from the full tree to the root with strictly increasing alphas", () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      const tree = buildTree(noisy(120, 0.2, seed), { maxDepth: 6, minSamplesSplit: 2, criterion: "gini" })
+      const path = costComplexityPath(tree)
+      expect(path[0].alpha).toBe(0)
+      expect(path.at(-1)!.leaves).toBe(1)
+      for (let i = 1; i < path.length; i++) {
+        expect(path[i].alpha).toBeGreaterThan(path[i - 1].alpha)
+        expect(path[i].leaves).toBeLessThan(path[i - 1].leaves)
+        expect(path[i].impurity).toBeGreaterThanOrEqual(path[i - 1].impurity - 1e-12)
+      }
+      // Pruning at each alpha on the path keeps the subtree that step describes
+      for (const step of path) expect(leaves(pruneTree(tree, step.alpha))).toBe(step.leaves)
+    }
+  })
+
+  it("leaves a tree untouched at alpha 0 when every split pays for itself", () => {
+    const tree = buildTree(noisy(80, 0), { maxDepth: 4, minSamplesSplit: 2, criterion: "gini" })
+    expect(pruneTree(tree, 0)).toBe(tree)
+  })
+})
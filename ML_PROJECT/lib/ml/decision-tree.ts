@@ -0,0 +1,329 @@
+import type { RandomFn } from "./types"
+
+export type Sample = { features: number[]; label: number }
+
+// gini and entropy grow classification trees; mse and mae grow regression trees over a numeric label
+export type Criterion = "gini" | "entropy" | "mse" | "mae"
+
+export const REGRESSION_CRITERIA: Criterion[] = ["mse", "mae"]
+
+export const isRegression = (criterion: Criterion) => REGRESSION_CRITERIA.includes(criterion)
+
+export type TreeNode = {
+  feature: number | null
+  threshold: number | null
+  impurity: number | null
+  left: TreeNode | null
+  right: TreeNode | null
+  // What the node predicts as a leaf (majority class, or mean/median target); set on internal nodes too
+  value: number
+  // Training samples that reached the node, in total and per class label (empty for regression)
+  samples: number
+  counts: Record<number, number>
+  // Features that were split candidates here (a random subset when maxFeatures is set); empty for leaves
+  candidates: number[]
+}
+
+export type TreeParams = {
+  maxDepth: number
+  minSamplesSplit: number
+  criterion: Criterion
+  // Number of features drawn at random as split candidates at each node; all features when omitted
+  maxFeatures?: number
+  random?: RandomFn
+}
+
+function classCounts(labels: number[]) {
+  const counts: Record<number, number> = {}
+  for (const lbl of labels) {
+    counts[lbl] = (counts[lbl] || 0) + 1
+  }
+  return counts
+}
+
+export function gini(labels: number[]) {
+  let impurity = 1
+  for (const count of Object.values(classCounts(labels))) {
+    const p = count / labels.length
+    impurity -= p * p
+  }
+  return impurity
+}
+
+export function entropy(labels: number[]) {
+  let result = 0
+  for (const count of Object.values(classCounts(labels))) {
+    const p = count / labels.length
+    result -= p * Math.log2(p)
+  }
+  return result
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+// Mean squared error around the mean, i.e. the variance
+export function mse(labels: number[]) {
+  const m = mean(labels)
+  return mean(labels.map((y) => (y - m) ** 2))
+}
+
+// Mean absolute error around the median
+export function mae(labels: number[]) {
+  const m = median(labels)
+  return mean(labels.map((y) => Math.abs(y - m)))
+}
+
+export const impurityFunctions: Record<Criterion, (labels: number[]) => number> = { gini, entropy, mse, mae }
+
+// The constant that minimizes each criterion over a leaf
+function leafValue(labels: number[], criterion: Criterion) {
+  if (criterion === "mse") return mean(labels)
+  if (criterion === "mae") return median(labels)
+  return majorityClass(labels)
+}
+
+function nodeStats(data: Sample[], criterion: Criterion) {
+  const labels = data.map((p) => p.label)
+  return {
+    value: leafValue(labels, criterion),
+    samples: data.length,
+    counts: isRegression(criterion) ? {} : classCounts(labels),
+  }
+}
+
+export function majorityClass(labels: number[]) {
+  let maxCount = 0
+  let maxLabel = 0
+  for (const [label, count] of Object.entries(classCounts(labels))) {
+    if (count > maxCount) {
+      maxCount = count
+      maxLabel = Number(label)
+    }
+  }
+  return maxLabel
+}
+
+export function shuffle<T>(items: T[], random: RandomFn = Math.random) {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+export function findBestSplit(data: Sample[], criterion: Criterion, minSamplesSplit: number, features: number[]) {
+  if (data.length < minSamplesSplit) return null
+
+  const impurityFn = impurityFunctions[criterion]
+  const currentImpurity = impurityFn(data.map((p) => p.label))
+
+  let bestGain = 0
+  let bestFeature: number | null = null
+  let bestThreshold: number | null = null
+
+  for (const feature of features) {
+    const values = [...new Set(data.map((p) => p.features[feature]))].sort((a, b) => a - b)
+
+    for (let i = 0; i < values.length - 1; i++) {
+      const threshold = (values[i] + values[i + 1]) / 2
+      const left = data.filter((p) => p.features[feature] <= threshold)
+      const right = data.filter((p) => p.features[feature] > threshold)
+      if (left.length === 0 || right.length === 0) continue
+
+      const leftImp = impurityFn(left.map((p) => p.label))
+      const rightImp = impurityFn(right.map((p) => p.label))
+      const weightedImp = (left.length / data.length) * leftImp + (right.length / data.length) * rightImp
+      const gain = currentImpurity - weightedImp
+
+      if (gain > bestGain) {
+        bestGain = gain
+        bestFeature = feature
+        bestThreshold = threshold
+      }
+    }
+  }
+
+  if (bestFeature === null || bestThreshold === null) return null
+
+  return { feature: bestFeature, threshold: bestThreshold, impurity: currentImpurity }
+}
+
+function leaf(data: Sample[], criterion: Criterion): TreeNode {
+  return {
+    feature: null,
+    threshold: null,
+    impurity: impurityFunctions[criterion](data.map((p) => p.label)),
+    left: null,
+    right: null,
+    ...nodeStats(data, criterion),
+    candidates: [],
+  }
+}
+
+export function buildTree(data: Sample[], params: TreeParams, depth = 0): TreeNode {
+  const { maxDepth, minSamplesSplit, criterion, maxFeatures, random = Math.random } = params
+  if (depth >= maxDepth || data.length < minSamplesSplit) return leaf(data, criterion)
+
+  const allFeatures = data.length > 0 ? data[0].features.map((_, i) => i) : []
+  const features =
+    maxFeatures === undefined ? allFeatures : shuffle(allFeatures, random).slice(0, Math.max(1, maxFeatures))
+
+  const split = findBestSplit(data, criterion, minSamplesSplit, features)
+  if (!split) return leaf(data, criterion)
+
+  const left = data.filter((p) => p.features[split.feature] <= split.threshold)
+  const right = data.filter((p) => p.features[split.feature] > split.threshold)
+
+  return {
+    feature: split.feature,
+    threshold: split.threshold,
+    impurity: split.impurity,
+    left: buildTree(left, params, depth + 1),
+    right: buildTree(right, params, depth + 1),
+    ...nodeStats(data, criterion),
+    candidates: features,
+  }
+}
+
+export function predictTree(tree: TreeNode, features: number[]): number {
+  let node = tree
+  while (node.left && node.right) {
+    node = features[node.feature!] <= node.threshold! ? node.left : node.right
+  }
+  return node.value
+}
+
+// Mean decrease in impurity: each split credits its feature with the impurity it removed, weighted by
+// the share of samples reaching it. Normalized to sum to 1 (all zeros for a single leaf).
+export function featureImportances(tree: TreeNode, numFeatures: number) {
+  const importances = Array<number>(numFeatures).fill(0)
+  const total = tree.samples
+
+  const visit = (node: TreeNode) => {
+    if (!node.left || !node.right || node.feature === null) return
+    importances[node.feature] +=
+      (node.samples * (node.impurity ?? 0) -
+        node.left.samples * (node.left.impurity ?? 0) -
+        node.right.samples * (node.right.impurity ?? 0)) /
+      total
+    visit(node.left)
+    visit(node.right)
+  }
+  visit(tree)
+
+  const sum = importances.reduce((a, b) => a + b, 0)
+  return sum > 0 ? importances.map((v) => v / sum) : importances
+}
+
+// Nodes visited from the root down to the leaf that decides `features`
+export function decisionPath(tree: TreeNode, features: number[]): TreeNode[] {
+  const path = [tree]
+  let node = tree
+  while (node.left && node.right) {
+    node = features[node.feature!] <= node.threshold! ? node.left : node.right
+    path.push(node)
+  }
+  return path
+}
+
+export type GridAxis = { feature: number; range: [number, number] }
+
+// The tree's path for every cell of a resolution x resolution grid over two features, row by row from the top,
+// with the other features fixed at `base`. Without a y axis the grid is a single row of columns along x.
+export function gridPaths(tree: TreeNode, base: number[], x: GridAxis, y: GridAxis | null, resolution: number) {
+  const cells: TreeNode[][] = []
+  const rows = y ? resolution : 1
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < resolution; col++) {
+      const features = [...base]
+      features[x.feature] = x.range[0] + ((col + 0.5) / resolution) * (x.range[1] - x.range[0])
+      if (y) features[y.feature] = y.range[1] - ((row + 0.5) / resolution) * (y.range[1] - y.range[0])
+      cells.push(decisionPath(tree, features))
+    }
+  }
+  return cells
+}
+
+// Nodes from the root down to `target`, or null if it isn't part of this tree
+export function findNodePath(tree: TreeNode, target: TreeNode): TreeNode[] | null {
+  if (tree === target) return [tree]
+  for (const child of [tree.left, tree.right]) {
+    const path = child && findNodePath(child, target)
+    if (path) return [tree, ...path]
+  }
+  return null
+}
+
+// Minimal cost-complexity pruning (Breiman et al.). A node's risk is its impurity weighted by the
+// share of training samples it holds; the effective alpha of an internal node t is
+// (R(t) - R(T_t)) / (|leaves(T_t)| - 1), the cost per leaf removed by collapsing its subtree.
+export type PruningStep = {
+  alpha: number
+  leaves: number
+  // Total leaf risk of the tree pruned at this alpha
+  impurity: number
+}
+
+const ALPHA_TOLERANCE = 1e-12
+
+function subtreeRisk(node: TreeNode, total: number): { risk: number; leaves: number } {
+  if (!node.left || !node.right) return { risk: (node.samples / total) * (node.impurity ?? 0), leaves: 1 }
+  const left = subtreeRisk(node.left, total)
+  const right = subtreeRisk(node.right, total)
+  return { risk: left.risk + right.risk, leaves: left.leaves + right.leaves }
+}
+
+function weakestLink(node: TreeNode, total: number): number {
+  if (!node.left || !node.right) return Infinity
+  const { risk, leaves } = subtreeRisk(node, total)
+  const own = ((node.samples / total) * (node.impurity ?? 0) - risk) / (leaves - 1)
+  return Math.min(own, weakestLink(node.left, total), weakestLink(node.right, total))
+}
+
+// Collapse every internal node whose effective alpha is at most `alpha`
+function collapse(node: TreeNode, alpha: number, total: number): TreeNode {
+  if (!node.left || !node.right) return node
+  const { risk, leaves } = subtreeRisk(node, total)
+  const own = ((node.samples / total) * (node.impurity ?? 0) - risk) / (leaves - 1)
+  if (own <= alpha + ALPHA_TOLERANCE) {
+    return { ...node, feature: null, threshold: null, left: null, right: null, candidates: [] }
+  }
+  return { ...node, left: collapse(node.left, alpha, total), right: collapse(node.right, alpha, total) }
+}
+
+// The alphas at which the tree loses its weakest links, from the full tree (alpha = 0) down to the root.
+// The weakest link is recomputed after every cut; cuts that tie with the previous alpha are merged into
+// its step, so every alpha on the path is distinct.
+export function costComplexityPath(tree: TreeNode): PruningStep[] {
+  const total = tree.samples
+  const path: PruningStep[] = []
+  let current = tree
+  let alpha = 0
+  for (;;) {
+    const { risk, leaves } = subtreeRisk(current, total)
+    const last = path[path.length - 1]
+    if (last && alpha <= last.alpha + ALPHA_TOLERANCE) path[path.length - 1] = { ...last, leaves, impurity: risk }
+    else path.push({ alpha, leaves, impurity: risk })
+    if (leaves === 1) return path
+    alpha = weakestLink(current, total)
+    current = collapse(current, alpha, total)
+  }
+}
+
+// The subtree sklearn's ccp_alpha would keep: weakest links are cut until every remaining one costs more than alpha
+export function pruneTree(tree: TreeNode, alpha: number): TreeNode {
+  const total = tree.samples
+  let current = tree
+  for (;;) {
+    const weakest = weakestLink(current, total)
+    if (weakest > alpha + ALPHA_TOLERANCE) return current
+    current = collapse(current, weakest, total)
+  }
+}
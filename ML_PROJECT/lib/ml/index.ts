@@ -0,0 +1,15 @@
+export * from "./types"
+export * from "./linear-regression"
+export * from "./logistic-regression"
+export * from "./knn"
+export * from "./kmeans"
+export * from "./dbscan"
+export * from "./svm"
+export * from "./kernel-expression"
+export * from "./perceptron"
+export * from "./som"
+export * from "./decision-tree"
+export * from "./random-forest"
+export * from "./random"
+export * from "./tree-export"
+export * from "./spatial-index"
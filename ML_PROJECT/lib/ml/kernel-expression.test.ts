@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest"
+import { parseKernelExpression } from "./kernel-expression"
+
+const vars = { dot: 2, dist: 3, gamma: 0.5, coef0: 1 }
+const evaluate = (source: string) => parseKernelExpression(source)(vars)
+
+describe("kernel expressions", () => {
+  it("follows the usual precedence", () => {
+    expect(evaluate("1 + 2 * 3")).toBe(7)
+    expect(evaluate("(1 + 2) * 3")).toBe(9)
+    expect(evaluate("-2 ^ 2")).toBe(-4)
+    // ^ is right-associative
+    expect(evaluate("2 ^ 3 ^ 2")).toBe(512)
+  })
+
+  it("reads the page notation for the dot product and squared distance", () => {
+    expect(evaluate("(x·y + coef0)^2")).toBe(9)
+    expect(evaluate("exp(-gamma * ||x−y||²)")).toBeCloseTo(Math.exp(-1.5))
+    expect(evaluate("dot * dist")).toBe(6)
+    expect(evaluate("2 * pi")).toBeCloseTo(2 * Math.PI)
+  })
+
+  it("rejects unknown names, including inherited object keys", () => {
+    expect(() => parseKernelExpression("foo + 1")).toThrow(/Unknown name "foo"/)
+    expect(() => parseKernelExpression("constructor(1)")).toThrow(/Unknown name/)
+    expect(() => parseKernelExpression("toString")).toThrow(/Unknown name/)
+  })
+
+  it("reports malformed input", () => {
+    expect(() => parseKernelExpression("1 +")).toThrow(/end of expression/)
+    expect(() => parseKernelExpression("(1 + 2")).toThrow()
+    expect(() => parseKernelExpression("1 $ 2")).toThrow(/Unexpected character/)
+  })
+})
@@ -0,0 +1,157 @@
+// Safe parser for user-typed kernel expressions. Nothing is eval'd: the source is tokenized,
+// parsed into a tree by recursive descent and compiled into closures.
+//
+// Grammar (usual precedence, ^ is right-associative):
+//   expr   := term (("+" | "-") term)*
+//   term   := unary (("*" | "/") unary)*
+//   unary  := "-" unary | power
+//   power  := atom ("^" unary)?
+//   atom   := number | name | name "(" expr ")" | "(" expr ")"
+
+export type KernelVariables = {
+  // x·y
+  dot: number
+  // ||x−y||²
+  dist: number
+  gamma: number
+  coef0: number
+}
+
+export type KernelExpression = (vars: KernelVariables) => number
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  exp: Math.exp,
+  log: Math.log,
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  tanh: Math.tanh,
+  sin: Math.sin,
+  cos: Math.cos,
+}
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E }
+
+const VARIABLES: (keyof KernelVariables)[] = ["dot", "dist", "gamma", "coef0"]
+
+type Token = { type: "number"; value: number } | { type: "name"; value: string } | { type: "op"; value: string }
+
+// Accept the notation used on the page (x·y, ||x−y||²) as aliases for dot and dist
+function normalize(source: string) {
+  return source
+    .replace(/\|\|\s*x\s*[-−]\s*y\s*\|\|\s*(\^\s*2|²|\*\*\s*2)/g, " dist ")
+    .replace(/\bx\s*[·.*]\s*y\b/g, " dot ")
+    .replace(/²/g, "^2")
+    .replace(/\*\*/g, "^")
+    .replace(/[−–]/g, "-")
+    .replace(/[·×]/g, "*")
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  const pattern = /\s*(?:(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_][a-z0-9_]*)|([-+*/^()]))/iy
+  let index = 0
+
+  while (index < source.length) {
+    if (/^\s*$/.test(source.slice(index))) break
+    pattern.lastIndex = index
+    const match = pattern.exec(source)
+    if (!match) throw new Error(`Unexpected character "${source.slice(index).trim()[0]}"`)
+    index = pattern.lastIndex
+
+    if (match[1] !== undefined) tokens.push({ type: "number", value: parseFloat(match[1]) })
+    else if (match[2] !== undefined) tokens.push({ type: "name", value: match[2].toLowerCase() })
+    else tokens.push({ type: "op", value: match[3] })
+  }
+
+  return tokens
+}
+
+export function parseKernelExpression(source: string): KernelExpression {
+  const tokens = tokenize(normalize(source))
+  if (!tokens.length) throw new Error("The expression is empty")
+  let position = 0
+
+  const peek = () => tokens[position]
+  const isOp = (value: string) => peek()?.type === "op" && peek().value === value
+  const expect = (value: string) => {
+    if (!isOp(value)) throw new Error(`Expected "${value}"`)
+    position++
+  }
+
+  const parseExpr = (): KernelExpression => {
+    let left = parseTerm()
+    while (isOp("+") || isOp("-")) {
+      const op = tokens[position++].value
+      const l = left
+      const r = parseTerm()
+      left = op === "+" ? (v) => l(v) + r(v) : (v) => l(v) - r(v)
+    }
+    return left
+  }
+
+  const parseTerm = (): KernelExpression => {
+    let left = parseUnary()
+    while (isOp("*") || isOp("/")) {
+      const op = tokens[position++].value
+      const l = left
+      const r = parseUnary()
+      left = op === "*" ? (v) => l(v) * r(v) : (v) => l(v) / r(v)
+    }
+    return left
+  }
+
+  const parseUnary = (): KernelExpression => {
+    if (isOp("-")) {
+      position++
+      const operand = parseUnary()
+      return (v) => -operand(v)
+    }
+    if (isOp("+")) {
+      position++
+      return parseUnary()
+    }
+    return parsePower()
+  }
+
+  const parsePower = (): KernelExpression => {
+    const base = parseAtom()
+    if (!isOp("^")) return base
+    position++
+    const exponent = parseUnary()
+    return (v) => base(v) ** exponent(v)
+  }
+
+  const parseAtom = (): KernelExpression => {
+    const token = peek()
+    if (!token) throw new Error("Unexpected end of expression")
+    position++
+
+    if (token.type === "number") return () => token.value
+
+    if (token.type === "name") {
+      const name = token.value
+      if (Object.hasOwn(FUNCTIONS, name)) {
+        const fn = FUNCTIONS[name]
+        expect("(")
+        const arg = parseExpr()
+        expect(")")
+        return (v) => fn(arg(v))
+      }
+      if (Object.hasOwn(CONSTANTS, name)) return () => CONSTANTS[name]
+      if ((VARIABLES as string[]).includes(name)) return (v) => v[name as keyof KernelVariables]
+      throw new Error(`Unknown name "${name}". Use dot, dist, gamma, coef0 or ${Object.keys(FUNCTIONS).join(", ")}`)
+    }
+
+    if (token.value === "(") {
+      const inner = parseExpr()
+      expect(")")
+      return inner
+    }
+
+    throw new Error(`Unexpected "${token.value}"`)
+  }
+
+  const compiled = parseExpr()
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position].value}"`)
+  return compiled
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest"
+import { assignClusters, kmeansStep, nearestCentroid, updateCentroids } from "./kmeans"
+
+const blobs = [
+  { x: 0, y: 0 },
+  { x: 0.2, y: 0 },
+  { x: 0, y: 0.2 },
+  { x: 5, y: 5 },
+  { x: 5.2, y: 5 },
+  { x: 5, y: 5.2 },
+]
+
+describe("k-means", () => {
+  it("assigns each point to its nearest centroid", () => {
+    expect(nearestCentroid({ x: 4, y: 4 }, [{ x: 0, y: 0 }, { x: 5, y: 5 }])).toBe(1)
+    expect(assignClusters(blobs, [{ x: 0, y: 0 }, { x: 5, y: 5 }]).map((p) => p.cluster)).toEqual([0, 0, 0, 1, 1, 1])
+  })
+
+  it("moves centroids to their cluster means and reseeds empty clusters", () => {
+    const assigned = assignClusters(blobs, [{ x: 0, y: 0 }, { x: 5, y: 5 }])
+    const centroids = updateCentroids(assigned, 3, () => ({ x: 9, y: 9 }))
+    expect(centroids[0].x).toBeCloseTo(0.2 / 3)
+    expect(centroids[1].y).toBeCloseTo(5 + 0.2 / 3)
+    expect(centroids[2]).toEqual({ x: 9, y: 9 })
+  })
+
+  it("converges on two blobs from a poor start", () => {
+    let centroids = [{ x: 0, y: 0 }, { x: 0.2, y: 0 }]
+    for (let i = 0; i < 5; i++) centroids = kmeansStep(blobs, centroids, () => ({ x: 0, y: 0 })).centroids
+    const { points } = kmeansStep(blobs, centroids, () => ({ x: 0, y: 0 }))
+    expect(new Set(points.slice(0, 3).map((p) => p.cluster)).size).toBe(1)
+    expect(new Set(points.slice(3).map((p) => p.cluster)).size).toBe(1)
+    expect(points[0].cluster).not.toBe(points[3].cluster)
+  })
+})
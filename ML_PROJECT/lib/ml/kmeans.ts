@@ -0,0 +1,39 @@
+import type { Point } from "./types"
+
+export type ClusteredPoint<T extends Point = Point> = T & { cluster: number }
+
+export function nearestCentroid(p: Point, centroids: Point[]) {
+  let minDist = Infinity
+  let cluster = 0
+  centroids.forEach((c, i) => {
+    const dist = (p.x - c.x) ** 2 + (p.y - c.y) ** 2
+    if (dist < minDist) {
+      minDist = dist
+      cluster = i
+    }
+  })
+  return cluster
+}
+
+export function assignClusters<T extends Point>(points: T[], centroids: Point[]): ClusteredPoint<T>[] {
+  return points.map((p) => ({ ...p, cluster: nearestCentroid(p, centroids) }))
+}
+
+// Moves every centroid to the mean of its points; empty clusters are re-seeded
+export function updateCentroids(points: ClusteredPoint[], k: number, reseed: () => Point): Point[] {
+  const sums = Array.from({ length: k }, () => ({ x: 0, y: 0, count: 0 }))
+  for (const p of points) {
+    const s = sums[p.cluster]
+    if (!s) continue
+    s.x += p.x
+    s.y += p.y
+    s.count++
+  }
+  return sums.map((s) => (s.count ? { x: s.x / s.count, y: s.y / s.count } : reseed()))
+}
+
+// One Lloyd iteration: assignment followed by the centroid update
+export function kmeansStep<T extends Point>(points: T[], centroids: Point[], reseed: () => Point) {
+  const assigned = assignClusters(points, centroids)
+  return { points: assigned, centroids: updateCentroids(assigned, centroids.length, reseed) }
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest"
+import {
+  classifyKNN,
+  cosineDistance,
+  crossValidateK,
+  distanceFunction,
+  kNearestNeighbors,
+  knnRegress,
+  knnVoteShares,
+  minkowski,
+  neighborWeights,
+  weightedVote,
+} from "./knn"
+import { createRandom } from "./random"
+
+const a = { x: 0, y: 0 }
+const b = { x: 3, y: 4 }
+
+// Two classes split at x = 0, with a little jitter
+function halves(n: number) {
+  const random = createRandom(1, "knn")
+  return Array.from({ length: n }, () => {
+    const x = random() * 2 - 1
+    return { x, y: random() * 2 - 1, label: x > 0 ? 1 : 0 }
+  })
+}
+
+describe("distance metrics", () => {
+  it("computes the Lp family", () => {
+    expect(minkowski(a, b, 1)).toBe(7)
+    expect(minkowski(a, b, 2)).toBe(5)
+    expect(minkowski(a, b, Infinity)).toBe(4)
+    expect(distanceFunction("manhattan")(a, b)).toBe(7)
+    expect(distanceFunction("chebyshev")(a, b)).toBe(4)
+    expect(distanceFunction("euclidean")(a, b)).toBe(5)
+  })
+
+  it("measures cosine distance from the origin it is given", () => {
+    expect(cosineDistance({ x: 1, y: 0 }, { x: 2, y: 0 })).toBeCloseTo(0)
+    expect(cosineDistance({ x: 1, y: 0 }, { x: 0, y: 1 })).toBeCloseTo(1)
+    expect(cosineDistance({ x: 2, y: 1 }, { x: 0, y: 1 }, { x: 1, y: 1 })).toBeCloseTo(2)
+    expect(cosineDistance(a, b)).toBe(1)
+  })
+})
+
+describe("voting", () => {
+  it("gives a neighbor at distance zero the whole vote", () => {
+    expect(neighborWeights([0, 1, 2], "distance")).toEqual([1, 0, 0])
+    expect(neighborWeights([1, 2], "distance")).toEqual([1, 0.5])
+    expect(neighborWeights([1, 2], "uniform")).toEqual([1, 1])
+  })
+
+  it("settles ties with the chosen policy", () => {
+    const neighbors = [
+      { x: 0, y: 0, label: 1, dist: 1 },
+      { x: 0, y: 0, label: 0, dist: 2 },
+      { x: 0, y: 0, label: 0, dist: 3 },
+      { x: 0, y: 0, label: 1, dist: 4 },
+    ]
+    expect(weightedVote(neighbors, "uniform", "lowest")).toMatchObject({ label: 0, tied: [0, 1] })
+    expect(weightedVote(neighbors, "uniform", "nearest").label).toBe(1)
+    // Without the farthest neighbor class 0 wins two to one
+    expect(weightedVote(neighbors, "uniform", "shrink").label).toBe(0)
+  })
+
+  it("returns the nearest neighbors sorted by distance", () => {
+    const data = [
+      { x: 5, y: 0, label: 0 },
+      { x: 1, y: 0, label: 1 },
+      { x: 3, y: 0, label: 0 },
+    ]
+    expect(kNearestNeighbors(data, a, 2).map((n) => n.x)).toEqual([1, 3])
+  })
+
+  it("agrees with the vote shares used for the region map", () => {
+    const data = halves(60)
+    const options = { distance: distanceFunction("euclidean"), weighting: "distance" as const }
+    for (const query of [{ x: 0.5, y: 0 }, { x: -0.3, y: 0.7 }, { x: 0.05, y: -0.2 }]) {
+      const shares = knnVoteShares(data, query, 5, 2, options)
+      expect(shares[0] + shares[1]).toBeCloseTo(1)
+      const { weights } = classifyKNN(data, query, 5, options).vote!
+      const total = Object.values(weights).reduce((x, y) => x + y, 0)
+      expect(shares[1]).toBeCloseTo((weights[1] ?? 0) / total)
+    }
+  })
+})
+
+describe("regression", () => {
+  it("averages the targets of the nearest points along x", () => {
+    const points = [0, 1, 2, 3].map((x) => ({ x, y: x * 10 }))
+    expect(knnRegress(points, 1.2, 2).prediction).toBe(15)
+    expect(knnRegress(points, 1, 3, "distance").prediction).toBe(10)
+  })
+})
+
+describe("cross-validation", () => {
+  it("scores every k, with k = 1 perfect on the training folds", () => {
+    const curve = crossValidateK(halves(100), 15, 5, {}, createRandom(1, "folds"))
+    expect(curve.map((p) => p.k)).toEqual(Array.from({ length: 15 }, (_, i) => i + 1))
+    expect(curve[0].train).toBe(1)
+    // The classes are cleanly separated, so a small neighborhood generalizes well
+    expect(Math.max(...curve.map((p) => p.validation))).toBeGreaterThan(0.9)
+  })
+})
@@ -0,0 +1,243 @@
+import { shuffle } from "./decision-tree"
+import type { LabeledPoint, Point, RandomFn } from "./types"
+
+export type Neighbor<T extends LabeledPoint> = T & { dist: number }
+
+export type DistanceFn = (a: Point, b: Point) => number
+
+export type DistanceMetric = "euclidean" | "manhattan" | "chebyshev" | "minkowski" | "cosine"
+
+export const DISTANCE_METRICS: Record<DistanceMetric, string> = {
+  euclidean: "Euclidean",
+  manhattan: "Manhattan",
+  chebyshev: "Chebyshev",
+  minkowski: "Minkowski",
+  cosine: "Cosine",
+}
+
+export type Weighting = "uniform" | "distance"
+
+// How a vote between equally weighted classes is settled
+export type TieBreak = "nearest" | "lowest" | "shrink"
+
+export const TIE_BREAKS: Record<TieBreak, string> = {
+  nearest: "Class of the nearest tied neighbor",
+  lowest: "Lowest class index",
+  shrink: "Drop the farthest neighbor and revote",
+}
+
+export type KNNOptions = {
+  distance?: DistanceFn
+  weighting?: Weighting
+  tieBreak?: TieBreak
+}
+
+export type CrossValidationPoint = {
+  k: number
+  // Mean accuracy over the folds, on each fold's training points and on its held-out points
+  train: number
+  validation: number
+}
+
+export type Vote = {
+  label: number
+  // Summed neighbor weight per class (neighbor counts when uniform)
+  weights: Record<number, number>
+  // Classes that shared the top weight, in label order; more than one means the tie-break decided
+  tied: number[]
+}
+
+// Weights that differ by less than this count as a tie
+const TIE_TOLERANCE = 1e-9
+
+export function squaredEuclidean(a: Point, b: Point) {
+  return (a.x - b.x) ** 2 + (a.y - b.y) ** 2
+}
+
+// The Minkowski (L_p) distance; p = 1 is Manhattan, p = 2 Euclidean and p = Infinity Chebyshev
+export function minkowski(a: Point, b: Point, p: number) {
+  const dx = Math.abs(a.x - b.x)
+  const dy = Math.abs(a.y - b.y)
+  if (p === Infinity) return Math.max(dx, dy)
+  return (dx ** p + dy ** p) ** (1 / p)
+}
+
+// 1 - cos of the angle between the two points seen from `origin`; 1 when either sits on the origin
+export function cosineDistance(a: Point, b: Point, origin: Point = { x: 0, y: 0 }) {
+  const ax = a.x - origin.x
+  const ay = a.y - origin.y
+  const bx = b.x - origin.x
+  const by = b.y - origin.y
+  const norms = Math.hypot(ax, ay) * Math.hypot(bx, by)
+  return norms > 0 ? 1 - (ax * bx + ay * by) / norms : 1
+}
+
+// `p` is only read by Minkowski and `origin` only by cosine
+export function distanceFunction(metric: DistanceMetric, p = 3, origin: Point = { x: 0, y: 0 }): DistanceFn {
+  switch (metric) {
+    case "manhattan":
+      return (a, b) => minkowski(a, b, 1)
+    case "chebyshev":
+      return (a, b) => minkowski(a, b, Infinity)
+    case "minkowski":
+      return (a, b) => minkowski(a, b, p)
+    case "cosine":
+      return (a, b) => cosineDistance(a, b, origin)
+    default:
+      return (a, b) => Math.sqrt(squaredEuclidean(a, b))
+  }
+}
+
+// Inverse distance weights; neighbors at distance zero take the whole vote, as in sklearn
+export function neighborWeights(dists: number[], weighting: Weighting) {
+  if (weighting === "uniform") return dists.map(() => 1)
+  if (dists.some((d) => d === 0)) return dists.map((d) => (d === 0 ? 1 : 0))
+  return dists.map((d) => 1 / d)
+}
+
+export function kNearestNeighbors<T extends LabeledPoint>(
+  data: T[],
+  query: Point,
+  k: number,
+  distance: DistanceFn = squaredEuclidean,
+): Neighbor<T>[] {
+  return data
+    .map((d) => ({ ...d, dist: distance(d, query) }))
+    .sort((a, b) => a.dist - b.dist)
+    .slice(0, k)
+}
+
+// Neighbors must be sorted nearest first, as kNearestNeighbors returns them
+export function weightedVote(
+  neighbors: Neighbor<LabeledPoint>[],
+  weighting: Weighting = "uniform",
+  tieBreak: TieBreak = "lowest",
+): Vote {
+  const weights: Record<number, number> = {}
+  neighborWeights(neighbors.map((n) => n.dist), weighting).forEach((w, i) => {
+    weights[neighbors[i].label] = (weights[neighbors[i].label] || 0) + w
+  })
+
+  const best = Math.max(...Object.values(weights))
+  const tied = Object.keys(weights)
+    .map(Number)
+    .filter((label) => weights[label] >= best - TIE_TOLERANCE)
+
+  let label = tied[0]
+  if (tied.length > 1 && tieBreak === "nearest") {
+    label = neighbors.find((n) => tied.includes(n.label))!.label
+  } else if (tied.length > 1 && tieBreak === "shrink") {
+    // Dropping one neighbor always leaves a single winner by the time one neighbor is left
+    label = weightedVote(neighbors.slice(0, -1), weighting, tieBreak).label
+  }
+  return { label, weights, tied }
+}
+
+// Plain majority vote; ties go to the lowest class index
+export function knnVote(neighbors: Neighbor<LabeledPoint>[]) {
+  return weightedVote(neighbors).label
+}
+
+// Share of the k nearest neighbors' weight in each class. Keeps a sorted buffer of k instead of
+// sorting all the data, since the region map calls this once per pixel.
+export function knnVoteShares(
+  data: LabeledPoint[],
+  query: Point,
+  k: number,
+  numClasses: number,
+  { distance = squaredEuclidean, weighting = "uniform" }: KNNOptions = {},
+) {
+  const shares = Array<number>(numClasses).fill(0)
+  const n = Math.min(k, data.length)
+  if (n === 0) return shares
+
+  const dists = new Float64Array(n).fill(Infinity)
+  const labels = new Int32Array(n)
+  for (const p of data) {
+    const d = distance(p, query)
+    if (d >= dists[n - 1]) continue
+    let i = n - 1
+    while (i > 0 && dists[i - 1] > d) {
+      dists[i] = dists[i - 1]
+      labels[i] = labels[i - 1]
+      i--
+    }
+    dists[i] = d
+    labels[i] = p.label
+  }
+
+  const weights = neighborWeights(Array.from(dists), weighting)
+  const total = weights.reduce((a, b) => a + b, 0)
+  weights.forEach((w, i) => (shares[labels[i]] += w / total))
+  return shares
+}
+
+export function classifyKNN<T extends LabeledPoint>(
+  data: T[],
+  query: Point,
+  k: number,
+  { distance = squaredEuclidean, weighting = "uniform", tieBreak = "lowest" }: KNNOptions = {},
+) {
+  const neighbors = kNearestNeighbors(data, query, k, distance)
+  const vote = neighbors.length > 0 ? weightedVote(neighbors, weighting, tieBreak) : null
+  return { prediction: vote?.label ?? null, neighbors, vote }
+}
+
+// KNN regression on one feature: points carry the feature in x and the target in y, and the
+// prediction at `x` is the weighted mean target of the k nearest points along x
+export function knnRegress<T extends Point>(points: T[], x: number, k: number, weighting: Weighting = "uniform") {
+  const neighbors = points
+    .map((p) => ({ ...p, dist: Math.abs(p.x - x) }))
+    .sort((a, b) => a.dist - b.dist)
+    .slice(0, k)
+  const weights = neighborWeights(neighbors.map((n) => n.dist), weighting)
+  const total = weights.reduce((a, b) => a + b, 0)
+  const prediction = total > 0 ? neighbors.reduce((sum, n, i) => sum + weights[i] * n.y, 0) / total : null
+  return { prediction, neighbors, weights }
+}
+
+// k-fold cross-validation of every k from 1 to maxK. Each point's neighbors are sorted once per fold
+// and every k votes over a prefix of them. Training points count themselves as a neighbor, so k = 1
+// always scores 100% on training data.
+export function crossValidateK(
+  data: LabeledPoint[],
+  maxK: number,
+  folds: number,
+  { distance = squaredEuclidean, weighting = "uniform", tieBreak = "lowest" }: KNNOptions = {},
+  random: RandomFn = Math.random,
+): CrossValidationPoint[] {
+  const order = shuffle(data.map((_, i) => i), random)
+  const fold = Array<number>(data.length)
+  order.forEach((i, position) => (fold[i] = position % folds))
+
+  const train = Array<number>(maxK).fill(0)
+  const validation = Array<number>(maxK).fill(0)
+  let scored = 0
+
+  for (let f = 0; f < folds; f++) {
+    const trainSet = data.filter((_, i) => fold[i] !== f)
+    const validationSet = data.filter((_, i) => fold[i] === f)
+    if (trainSet.length === 0 || validationSet.length === 0) continue
+
+    const accuracy = (queries: LabeledPoint[]) => {
+      const correct = Array<number>(maxK).fill(0)
+      for (const query of queries) {
+        const neighbors = kNearestNeighbors(trainSet, query, maxK, distance)
+        for (let k = 1; k <= maxK; k++) {
+          if (weightedVote(neighbors.slice(0, k), weighting, tieBreak).label === query.label) correct[k - 1]++
+        }
+      }
+      return correct.map((c) => c / queries.length)
+    }
+
+    accuracy(trainSet).forEach((a, k) => (train[k] += a))
+    accuracy(validationSet).forEach((a, k) => (validation[k] += a))
+    scored++
+  }
+
+  return train.map((_, k) => ({
+    k: k + 1,
+    train: scored > 0 ? train[k] / scored : 0,
+    validation: scored > 0 ? validation[k] / scored : 0,
+  }))
+}
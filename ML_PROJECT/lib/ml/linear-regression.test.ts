@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest"
+import { fitLinearRegression, linearRegressionStep, meanSquaredError, predictLinear } from "./linear-regression"
+
+const line = Array.from({ length: 11 }, (_, i) => ({ x: i / 5 - 1, y: 2 * (i / 5 - 1) + 1 }))
+
+describe("linear regression", () => {
+  it("takes a step against the gradient of the mean squared error", () => {
+    const next = linearRegressionStep({ w: 0, b: 0 }, [{ x: 1, y: 2 }], 0.5)
+    // error = -2, so dw = -2 and db = -2
+    expect(next).toEqual({ w: 1, b: 1 })
+  })
+
+  it("leaves the model unchanged without points", () => {
+    const model = { w: 3, b: -1 }
+    expect(linearRegressionStep(model, [], 0.1)).toBe(model)
+    expect(meanSquaredError(model, [])).toBe(0)
+  })
+
+  it("recovers a noiseless line", () => {
+    const model = fitLinearRegression(line, { learningRate: 0.5, iterations: 500 })
+    expect(model.w).toBeCloseTo(2, 6)
+    expect(model.b).toBeCloseTo(1, 6)
+    expect(predictLinear(model, 3)).toBeCloseTo(7, 5)
+    expect(meanSquaredError(model, line)).toBeLessThan(1e-10)
+  })
+})
@@ -0,0 +1,46 @@
+import type { Point } from "./types"
+
+export type LinearModel = { w: number; b: number }
+
+export type GradientDescentParams = {
+  learningRate: number
+  iterations: number
+}
+
+export function predictLinear(model: LinearModel, x: number) {
+  return model.w * x + model.b
+}
+
+// One full-batch gradient descent step on the mean squared error
+export function linearRegressionStep(model: LinearModel, points: Point[], learningRate: number): LinearModel {
+  if (points.length === 0) return model
+
+  let dw = 0
+  let db = 0
+  for (const pt of points) {
+    const error = predictLinear(model, pt.x) - pt.y
+    dw += pt.x * error
+    db += error
+  }
+  dw /= points.length
+  db /= points.length
+
+  return { w: model.w - learningRate * dw, b: model.b - learningRate * db }
+}
+
+export function fitLinearRegression(
+  points: Point[],
+  { learningRate, iterations }: GradientDescentParams,
+  initial: LinearModel = { w: 0, b: 0 },
+) {
+  let model = initial
+  for (let i = 0; i < iterations; i++) {
+    model = linearRegressionStep(model, points, learningRate)
+  }
+  return model
+}
+
+export function meanSquaredError(model: LinearModel, points: Point[]) {
+  if (points.length === 0) return 0
+  return points.reduce((sum, pt) => sum + (pt.y - predictLinear(model, pt.x)) ** 2, 0) / points.length
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest"
+import {
+  classificationErrorRate,
+  fitLogisticRegression,
+  logisticRegressionStep,
+  predictProbability,
+  sigmoid,
+} from "./logistic-regression"
+
+const separable = [-2, -1.5, -1, -0.5, 0.5, 1, 1.5, 2].map((x) => ({ x, y: x > 0 ? 1 : 0 }))
+
+describe("logistic regression", () => {
+  it("maps zero to even odds", () => {
+    expect(sigmoid(0)).toBe(0.5)
+    expect(predictProbability({ w: 1, b: 0 }, 0)).toBe(0.5)
+  })
+
+  it("moves the weight towards the positive class", () => {
+    const next = logisticRegressionStep({ w: 0, b: 0 }, [{ x: 1, y: 1 }], 1)
+    expect(next.w).toBeCloseTo(0.5)
+    expect(next.b).toBeCloseTo(0.5)
+  })
+
+  it("separates linearly separable data", () => {
+    const model = fitLogisticRegression(separable, { learningRate: 1, iterations: 200 })
+    expect(model.w).toBeGreaterThan(0)
+    expect(classificationErrorRate(model, separable, 0.5)).toBe(0)
+    expect(predictProbability(model, 2)).toBeGreaterThan(0.95)
+  })
+})
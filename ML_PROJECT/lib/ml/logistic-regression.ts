@@ -0,0 +1,46 @@
+import type { Point } from "./types"
+import type { GradientDescentParams, LinearModel } from "./linear-regression"
+
+// Samples are 1D: `x` is the feature and `y` the 0/1 label
+export type LogisticModel = LinearModel
+
+export const sigmoid = (z: number) => 1 / (1 + Math.exp(-z))
+
+export function predictProbability(model: LogisticModel, x: number) {
+  return sigmoid(model.w * x + model.b)
+}
+
+// One full-batch gradient descent step on the cross-entropy loss
+export function logisticRegressionStep(model: LogisticModel, points: Point[], learningRate: number): LogisticModel {
+  if (points.length === 0) return model
+
+  let dw = 0
+  let db = 0
+  for (const pt of points) {
+    const dz = predictProbability(model, pt.x) - pt.y
+    dw += pt.x * dz
+    db += dz
+  }
+  dw /= points.length
+  db /= points.length
+
+  return { w: model.w - learningRate * dw, b: model.b - learningRate * db }
+}
+
+export function fitLogisticRegression(
+  points: Point[],
+  { learningRate, iterations }: GradientDescentParams,
+  initial: LogisticModel = { w: 0, b: 0 },
+) {
+  let model = initial
+  for (let i = 0; i < iterations; i++) {
+    model = logisticRegressionStep(model, points, learningRate)
+  }
+  return model
+}
+
+export function classificationErrorRate(model: LogisticModel, points: Point[], threshold: number) {
+  if (points.length === 0) return 0
+  const errors = points.filter((pt) => (predictProbability(model, pt.x) > threshold ? 1 : 0) !== pt.y).length
+  return errors / points.length
+}
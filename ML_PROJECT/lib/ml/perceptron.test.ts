@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest"
+import { backpropStep, createNetwork, forwardPass, meanSquaredLoss, networkAccuracy, trainEpoch } from "./perceptron"
+import { createRandom } from "./random"
+
+const shape = { inputSize: 2, hiddenLayers: 2, hiddenSize: 3, outputSize: 1 }
+
+describe("perceptron", () => {
+  it("creates layers of the requested shape", () => {
+    const layers = createNetwork(shape, createRandom(1))
+    expect(layers.map((l) => [l.weights.length, l.weights[0].length])).toEqual([
+      [3, 2],
+      [3, 3],
+      [1, 3],
+    ])
+  })
+
+  it("returns the activations of every layer, starting with the input", () => {
+    const layers = [{ weights: [[1, -1]], biases: [0.5] }]
+    const acts = forwardPass(layers, [2, 1], "identity")
+    expect(acts).toEqual([[2, 1], [1.5]])
+    expect(forwardPass(layers, [0, 1], "relu").at(-1)).toEqual([0])
+  })
+
+  it("lowers the loss on a single sample with each update", () => {
+    let layers = createNetwork(shape, createRandom(2))
+    const input = [0.5, -0.3]
+    const target = [1]
+    const loss = () => meanSquaredLoss(forwardPass(layers, input, "sigmoid").at(-1)!, target)
+    const before = loss()
+    for (let i = 0; i < 50; i++) layers = backpropStep(layers, input, target, "sigmoid", 0.5).layers
+    expect(loss()).toBeLessThan(before)
+  })
+
+  it("learns a linearly separable problem", () => {
+    const random = createRandom(3, "samples")
+    const samples = Array.from({ length: 40 }, () => {
+      const input = [random() * 2 - 1, random() * 2 - 1]
+      return { input, target: [input[0] + input[1] > 0 ? 1 : 0] }
+    })
+    let layers = createNetwork({ ...shape, hiddenLayers: 1 }, createRandom(3))
+    for (let epoch = 0; epoch < 200; epoch++) layers = trainEpoch(layers, samples, "sigmoid", 0.5).layers
+    expect(networkAccuracy(layers, samples, "sigmoid")).toBeGreaterThanOrEqual(0.95)
+  })
+})
@@ -0,0 +1,120 @@
+import type { RandomFn } from "./types"
+
+export type Layer = { weights: number[][]; biases: number[] }
+
+export const activationFunctions = {
+  sigmoid: {
+    func: (x: number) => 1 / (1 + Math.exp(-x)),
+    // Derivatives take the activation output, not the pre-activation
+    derivative: (y: number) => y * (1 - y),
+  },
+  relu: {
+    func: (x: number) => Math.max(0, x),
+    derivative: (y: number) => (y > 0 ? 1 : 0),
+  },
+  identity: {
+    func: (x: number) => x,
+    derivative: (_: number) => 1,
+  },
+}
+
+export type ActivationName = keyof typeof activationFunctions
+
+export type NetworkShape = {
+  inputSize: number
+  hiddenLayers: number
+  hiddenSize: number
+  outputSize: number
+}
+
+export function createNetwork(
+  { inputSize, hiddenLayers, hiddenSize, outputSize }: NetworkShape,
+  random: RandomFn = Math.random,
+): Layer[] {
+  const init = () => (random() * 2 - 1) * 0.5
+  const layer = (size: number, prev: number): Layer => ({
+    weights: Array.from({ length: size }, () => Array.from({ length: prev }, init)),
+    biases: Array.from({ length: size }, init),
+  })
+
+  const layers: Layer[] = []
+  let prev = inputSize
+  for (let i = 0; i < hiddenLayers; i++) {
+    layers.push(layer(hiddenSize, prev))
+    prev = hiddenSize
+  }
+  layers.push(layer(outputSize, prev))
+  return layers
+}
+
+// Returns the activations of every layer, starting with the input itself
+export function forwardPass(layers: Layer[], input: number[], activation: ActivationName) {
+  const { func } = activationFunctions[activation]
+  const acts: number[][] = [input]
+  let curr = input
+  for (const layer of layers) {
+    curr = layer.weights.map((row, j) => func(row.reduce((sum, w, i) => sum + w * curr[i], layer.biases[j])))
+    acts.push(curr)
+  }
+  return acts
+}
+
+// One backpropagation update on a single sample; `activations` are from before the update
+export function backpropStep(
+  layers: Layer[],
+  input: number[],
+  target: number[],
+  activation: ActivationName,
+  learningRate: number,
+) {
+  const { derivative } = activationFunctions[activation]
+  const activations = forwardPass(layers, input, activation)
+
+  const deltas: number[][] = [activations.at(-1)!.map((output, i) => (output - target[i]) * derivative(output))]
+  for (let l = layers.length - 2; l >= 0; l--) {
+    const nextWeights = layers[l + 1].weights
+    const nextDeltas = deltas[0]
+    deltas.unshift(
+      activations[l + 1].map(
+        (a, j) => nextWeights.reduce((sum, row, k) => sum + row[j] * nextDeltas[k], 0) * derivative(a),
+      ),
+    )
+  }
+
+  const updated = layers.map((layer, l) => ({
+    weights: layer.weights.map((row, j) => row.map((w, i) => w - learningRate * deltas[l][j] * activations[l][i])),
+    biases: layer.biases.map((b, j) => b - learningRate * deltas[l][j]),
+  }))
+
+  return { layers: updated, activations }
+}
+
+export function meanSquaredLoss(output: number[], target: number[]) {
+  return output.reduce((sum, v, i) => sum + (v - target[i]) ** 2, 0) / output.length
+}
+
+export type NetworkSample = { input: number[]; target: number[] }
+
+// One pass of per-sample updates over the dataset; `activations` belong to the last sample
+export function trainEpoch(layers: Layer[], samples: NetworkSample[], activation: ActivationName, learningRate: number) {
+  let current = layers
+  let activations: number[][] = []
+  for (const { input, target } of samples) {
+    const result = backpropStep(current, input, target, activation, learningRate)
+    current = result.layers
+    activations = result.activations
+  }
+  return { layers: current, activations }
+}
+
+const argmax = (values: number[]) => values.indexOf(Math.max(...values))
+
+// A single output unit is read as a binary classifier thresholded at 0.5
+export function networkAccuracy(layers: Layer[], samples: NetworkSample[], activation: ActivationName) {
+  if (samples.length === 0) return 0
+  const correct = samples.filter(({ input, target }) => {
+    const output = forwardPass(layers, input, activation).at(-1)!
+    return output.length === 1 ? output[0] > 0.5 === target[0] > 0.5 : argmax(output) === argmax(target)
+  }).length
+  return correct / samples.length
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest"
+import {
+  bootstrap,
+  buildForest,
+  forestVote,
+  impurityImportances,
+  oobErrorCurve,
+  permutationImportances,
+} from "./random-forest"
+import { createRandom } from "./random"
+import type { Sample } from "./decision-tree"
+
+// Three features; only the first two decide the class
+function dataset(n: number): Sample[] {
+  const random = createRandom(5, "forest-data")
+  return Array.from({ length: n }, () => {
+    const features = [random(), random(), random()]
+    return { features, label: features[0] + features[1] > 1 ? 1 : 0 }
+  })
+}
+
+const params = {
+  maxDepth: 5,
+  minSamplesSplit: 2,
+  criterion: "gini" as const,
+  numberOfTrees: 15,
+  subsampleRatio: 1,
+  featureSubsetRatio: 0.7,
+}
+
+describe("random forest", () => {
+  it("draws bootstrap indices with replacement", () => {
+    const indices = bootstrap(10, 1000, createRandom(1))
+    expect(indices.every((i) => Number.isInteger(i) && i >= 0 && i < 10)).toBe(true)
+    expect(new Set(indices).size).toBe(10)
+  })
+
+  it("keeps each tree's out-of-bag samples out of its bootstrap", () => {
+    const data = dataset(100)
+    const forest = buildForest(data, params, createRandom(1))
+    expect(forest).toHaveLength(15)
+    for (const { inBag, outOfBag } of forest) {
+      expect(inBag).toHaveLength(100)
+      const drawn = new Set(inBag)
+      expect(outOfBag.every((i) => !drawn.has(i))).toBe(true)
+      expect(drawn.size + outOfBag.length).toBe(100)
+    }
+  })
+
+  it("votes with every tree and generalizes from out-of-bag samples", () => {
+    const data = dataset(200)
+    const forest = buildForest(data, params, createRandom(2))
+    const { final, votes } = forestVote(forest, [0.9, 0.9, 0.1], 2)
+    expect(votes).toHaveLength(15)
+    expect(final).toBe(1)
+
+    const curve = oobErrorCurve(forest, data, 2)
+    expect(curve.map((p) => p.trees)).toEqual(Array.from({ length: 15 }, (_, t) => t + 1))
+    curve.slice(1).forEach((p, t) => expect(p.coverage).toBeGreaterThanOrEqual(curve[t].coverage))
+    expect(curve.at(-1)!.coverage).toBeGreaterThan(0.9)
+    expect(curve.at(-1)!.error).toBeLessThan(0.15)
+  })
+
+  it("ranks the informative features above the noise feature", () => {
+    const data = dataset(200)
+    const forest = buildForest(data, params, createRandom(3))
+    const impurity = impurityImportances(forest, 3)
+    expect(impurity.reduce((a, b) => a + b, 0)).toBeCloseTo(1)
+    expect(Math.min(impurity[0], impurity[1])).toBeGreaterThan(impurity[2])
+    const permutation = permutationImportances(forest, data, 3, createRandom(3, "permutation"))
+    expect(Math.min(permutation[0], permutation[1])).toBeGreaterThan(permutation[2])
+  })
+})
@@ -0,0 +1,113 @@
+import { buildTree, featureImportances, predictTree, shuffle, type TreeNode, type TreeParams, type Sample } from "./decision-tree"
+import type { RandomFn } from "./types"
+
+export type ForestParams = Omit<TreeParams, "maxFeatures" | "random"> & {
+  numberOfTrees: number
+  // Bootstrap sample size as a fraction of the data (sklearn's max_samples)
+  subsampleRatio: number
+  featureSubsetRatio: number
+}
+
+export type ForestTree = {
+  tree: TreeNode
+  // Indices into the training data drawn with replacement; repeats are kept
+  inBag: number[]
+  // Indices never drawn for this tree, used for its out-of-bag predictions
+  outOfBag: number[]
+}
+
+export type OOBPoint = {
+  trees: number
+  // Error over the samples that are out of bag for at least one of the first `trees` trees
+  error: number
+  // Share of samples with at least one out-of-bag vote so far
+  coverage: number
+}
+
+// Indices drawn uniformly with replacement
+export function bootstrap(n: number, size: number, random: RandomFn = Math.random) {
+  return Array.from({ length: size }, () => Math.floor(random() * n))
+}
+
+export function buildForest(data: Sample[], params: ForestParams, random: RandomFn = Math.random): ForestTree[] {
+  const numFeatures = data.length > 0 ? data[0].features.length : 0
+  const maxFeatures = Math.max(1, Math.floor(numFeatures * params.featureSubsetRatio))
+  const size = Math.max(1, Math.round(data.length * params.subsampleRatio))
+
+  return Array.from({ length: params.numberOfTrees }, () => {
+    const inBag = bootstrap(data.length, size, random)
+    const drawn = new Set(inBag)
+    return {
+      tree: buildTree(inBag.map((i) => data[i]), { ...params, maxFeatures, random }),
+      inBag,
+      outOfBag: data.flatMap((_, i) => (drawn.has(i) ? [] : [i])),
+    }
+  })
+}
+
+export function forestVote(forest: ForestTree[], features: number[], numClasses: number) {
+  const votes = forest.map(({ tree }) => predictTree(tree, features))
+  const counts = Array(numClasses).fill(0)
+  votes.forEach((v) => counts[v]++)
+  return { final: counts.indexOf(Math.max(...counts)), votes }
+}
+
+// OOB error as the forest grows: each sample is voted on only by the trees that didn't train on it
+export function oobErrorCurve(forest: ForestTree[], data: Sample[], numClasses: number): OOBPoint[] {
+  const votes = data.map(() => Array<number>(numClasses).fill(0))
+  const covered = new Set<number>()
+
+  return forest.map(({ tree, outOfBag }, t) => {
+    for (const i of outOfBag) {
+      votes[i][predictTree(tree, data[i].features)]++
+      covered.add(i)
+    }
+    let wrong = 0
+    for (const i of covered) {
+      const counts = votes[i]
+      if (counts.indexOf(Math.max(...counts)) !== data[i].label) wrong++
+    }
+    return {
+      trees: t + 1,
+      error: covered.size > 0 ? wrong / covered.size : 0,
+      coverage: data.length > 0 ? covered.size / data.length : 0,
+    }
+  })
+}
+
+// Forest MDI: the per-tree importances averaged, as sklearn's feature_importances_
+export function impurityImportances(forest: ForestTree[], numFeatures: number) {
+  const sums = Array<number>(numFeatures).fill(0)
+  for (const { tree } of forest) {
+    featureImportances(tree, numFeatures).forEach((v, f) => (sums[f] += v))
+  }
+  return sums.map((v) => (forest.length > 0 ? v / forest.length : 0))
+}
+
+// Breiman's permutation importance: the drop in each tree's accuracy on its own out-of-bag samples
+// when one feature's values are shuffled among them, averaged over the trees
+export function permutationImportances(
+  forest: ForestTree[],
+  data: Sample[],
+  numFeatures: number,
+  random: RandomFn = Math.random,
+) {
+  const drops = Array<number>(numFeatures).fill(0)
+  let scored = 0
+
+  for (const { tree, outOfBag } of forest) {
+    if (outOfBag.length === 0) continue
+    const oob = outOfBag.map((i) => data[i])
+    const accuracy = (rows: number[][]) =>
+      rows.filter((features, k) => predictTree(tree, features) === oob[k].label).length / oob.length
+    const baseline = accuracy(oob.map((s) => s.features))
+
+    for (let f = 0; f < numFeatures; f++) {
+      const permuted = shuffle(oob.map((s) => s.features[f]), random)
+      drops[f] += baseline - accuracy(oob.map((s, k) => s.features.map((v, g) => (g === f ? permuted[k] : v))))
+    }
+    scored++
+  }
+
+  return drops.map((v) => (scored > 0 ? v / scored : 0))
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest"
+import { createRandom, mulberry32 } from "./random"
+
+const draw = (random: () => number, n: number) => Array.from({ length: n }, random)
+
+describe("seeded random", () => {
+  it("repeats the same sequence for the same seed and stream", () => {
+    expect(draw(createRandom(7, "data"), 5)).toEqual(draw(createRandom(7, "data"), 5))
+  })
+
+  it("gives streams and seeds independent sequences", () => {
+    expect(draw(createRandom(7, "data"), 5)).not.toEqual(draw(createRandom(7, "model"), 5))
+    expect(draw(createRandom(7, "data"), 5)).not.toEqual(draw(createRandom(8, "data"), 5))
+  })
+
+  it("stays in [0, 1)", () => {
+    const values = draw(mulberry32(123), 10000)
+    expect(Math.min(...values)).toBeGreaterThanOrEqual(0)
+    expect(Math.max(...values)).toBeLessThan(1)
+    const mean = values.reduce((a, b) => a + b, 0) / values.length
+    expect(mean).toBeCloseTo(0.5, 1)
+  })
+})
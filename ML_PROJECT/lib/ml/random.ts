@@ -0,0 +1,33 @@
+import type { RandomFn } from "./types"
+
+export const DEFAULT_SEED = 42
+
+// FNV-1a; turns a seed plus stream name into a 32-bit state
+function hashString(value: string) {
+  let h = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+export function mulberry32(seed: number): RandomFn {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Independent generator per stream, so e.g. re-initializing a model does not shift the data
+export function createRandom(seed: number, stream = ""): RandomFn {
+  return mulberry32(hashString(`${seed}:${stream}`))
+}
+
+export function randomSeed() {
+  return Math.floor(Math.random() * 1_000_000)
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest"
+import { createSOMGrid, findBMU, somStep, trainSOM } from "./som"
+import { createRandom } from "./random"
+
+const params = { gridSize: 5, learningRate: 0.5, iterations: 100, sigma: 1 }
+
+describe("self-organizing map", () => {
+  it("lays the grid out over [-0.5, 0.5]", () => {
+    const grid = createSOMGrid(3)
+    expect(grid).toHaveLength(9)
+    expect(grid[0]).toEqual({ x: -0.5, y: -0.5, i: 0, j: 0 })
+    expect(grid[8]).toEqual({ x: 0.5, y: 0.5, i: 2, j: 2 })
+  })
+
+  it("finds the closest neuron", () => {
+    const grid = createSOMGrid(3)
+    expect(grid[findBMU(grid, { x: 0.45, y: -0.4 })]).toMatchObject({ i: 2, j: 0 })
+  })
+
+  it("pulls the winner harder than its map neighbours", () => {
+    const grid = createSOMGrid(params.gridSize)
+    const point = { x: 0.6, y: 0.6 }
+    const { grid: next, bmu } = somStep(grid, point, 0, params)
+    // Share of the gap to the point that each neuron closed
+    const pulled = (i: number) =>
+      Math.hypot(next[i].x - grid[i].x, next[i].y - grid[i].y) / Math.hypot(point.x - grid[i].x, point.y - grid[i].y)
+    const winner = next.indexOf(bmu)
+    expect(bmu).toMatchObject({ i: 4, j: 4 })
+    expect(pulled(winner)).toBeCloseTo(params.learningRate)
+    expect(pulled(winner - 1)).toBeLessThan(pulled(winner))
+    expect(pulled(0)).toBeLessThan(1e-3)
+  })
+
+  it("spreads the map over the data", () => {
+    const random = createRandom(1, "som")
+    const data = Array.from({ length: 200 }, () => ({ x: random() * 2 - 1, y: random() * 2 - 1 }))
+    const { grid } = trainSOM(data, params, 300, createRandom(1, "train"))
+    const xs = grid.map((n) => n.x)
+    expect(Math.max(...xs) - Math.min(...xs)).toBeGreaterThan(1)
+  })
+})
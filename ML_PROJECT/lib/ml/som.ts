@@ -0,0 +1,65 @@
+import type { Point, RandomFn } from "./types"
+
+// A neuron's weight vector (x, y) and its fixed position (i, j) on the map
+export type SOMNode = Point & { i: number; j: number }
+
+export type SOMParams = {
+  gridSize: number
+  learningRate: number
+  iterations: number
+  sigma: number
+}
+
+export function createSOMGrid(gridSize: number): SOMNode[] {
+  const grid: SOMNode[] = []
+  for (let i = 0; i < gridSize; i++) {
+    for (let j = 0; j < gridSize; j++) {
+      grid.push({ x: i / (gridSize - 1) - 0.5, y: j / (gridSize - 1) - 0.5, i, j })
+    }
+  }
+  return grid
+}
+
+export function findBMU(grid: SOMNode[], point: Point) {
+  let bmuIndex = 0
+  let minDist = Infinity
+  for (let i = 0; i < grid.length; i++) {
+    const dist = Math.hypot(point.x - grid[i].x, point.y - grid[i].y)
+    if (dist < minDist) {
+      minDist = dist
+      bmuIndex = i
+    }
+  }
+  return bmuIndex
+}
+
+// Pulls the BMU and its map neighbours towards `point`, with exponentially decaying rate and radius
+export function somStep(grid: SOMNode[], point: Point, iter: number, { learningRate, iterations, sigma }: SOMParams) {
+  const bmu = grid[findBMU(grid, point)]
+  const lrDecay = learningRate * Math.exp(-iter / iterations)
+  const sigmaDecay = sigma * Math.exp(-iter / iterations)
+
+  const updated = grid.map((node) => {
+    const gridDist = Math.hypot(node.i - bmu.i, node.j - bmu.j)
+    const influence = Math.exp(-(gridDist ** 2) / (2 * sigmaDecay ** 2))
+    return {
+      ...node,
+      x: node.x + lrDecay * influence * (point.x - node.x),
+      y: node.y + lrDecay * influence * (point.y - node.y),
+    }
+  })
+
+  return { grid: updated, bmu: updated[grid.indexOf(bmu)] }
+}
+
+export function trainSOM(data: Point[], params: SOMParams, steps: number, random: RandomFn = Math.random) {
+  let grid = createSOMGrid(params.gridSize)
+  let lastBMU: SOMNode | null = null
+  for (let iter = 0; iter < steps; iter++) {
+    const point = data[Math.floor(random() * data.length)]
+    const result = somStep(grid, point, iter, params)
+    grid = result.grid
+    lastBMU = result.bmu
+  }
+  return { grid, lastBMU }
+}
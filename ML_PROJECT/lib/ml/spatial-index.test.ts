@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest"
+import { buildBallTree, buildKDTree, searchIndex, type IndexNode } from "./spatial-index"
+import { distanceFunction, type DistanceMetric } from "./knn"
+import { createRandom } from "./random"
+
+const random = createRandom(4, "index")
+const points = Array.from({ length: 200 }, () => ({ x: random() * 800, y: random() * 600 }))
+const queries = Array.from({ length: 20 }, () => ({ x: random() * 800, y: random() * 600 }))
+const bounds = { x: [0, 800] as [number, number], y: [0, 600] as [number, number] }
+
+const count = (node: IndexNode | null): number =>
+  node ? node.points.length + node.children.reduce((sum, child) => sum + count(child), 0) : 0
+
+describe("spatial indexes", () => {
+  it("store every point exactly once", () => {
+    expect(count(buildKDTree(points, bounds))).toBe(points.length)
+    expect(count(buildBallTree(points, distanceFunction("euclidean")))).toBe(points.length)
+    expect(buildKDTree([], bounds)).toBeNull()
+  })
+
+  for (const metric of ["euclidean", "manhattan", "chebyshev", "minkowski"] as DistanceMetric[]) {
+    it(`find the same neighbors as a brute-force scan (${metric})`, () => {
+      const distance = distanceFunction(metric, 3)
+      const indexes = [buildKDTree(points, bounds), buildBallTree(points, distance)]
+      for (const query of queries) {
+        const brute = points
+          .map((p, i) => ({ point: i, dist: distance(p, query) }))
+          .sort((a, b) => a.dist - b.dist)
+          .slice(0, 5)
+        for (const index of indexes) {
+          const result = searchIndex(index, points, query, 5, distance)
+          expect(result.neighbors.map((n) => n.dist)).toEqual(brute.map((n) => n.dist))
+          expect(result.distances).toBeLessThan(points.length)
+          expect(result.steps.filter((s) => s.type === "distance")).toHaveLength(result.distances)
+        }
+      }
+    })
+  }
+})
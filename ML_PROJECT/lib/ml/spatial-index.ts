@@ -0,0 +1,133 @@
+import type { DistanceFn } from "./knn"
+import type { Point } from "./types"
+
+export type SpatialIndexKind = "kd" | "ball"
+
+export const SPATIAL_INDEXES: Record<SpatialIndexKind, string> = {
+  kd: "KD-tree",
+  ball: "Ball tree",
+}
+
+export type Box = { x: [number, number]; y: [number, number] }
+
+// The part of the plane a node covers: a KD-tree cell, or a ball in the search metric
+export type IndexRegion = { kind: "box"; box: Box } | { kind: "ball"; center: Point; radius: number }
+
+export type IndexNode = {
+  region: IndexRegion
+  // Indices of the points stored at this node: a KD node's split point, or a ball-tree leaf's bucket
+  points: number[]
+  children: IndexNode[]
+}
+
+export type SearchStep =
+  | { type: "visit"; node: IndexNode }
+  | { type: "distance"; point: number; dist: number }
+  // The node's region lies farther than the current k-th neighbor, so none of it is searched
+  | { type: "prune"; node: IndexNode }
+
+export type SearchResult = {
+  // Nearest first
+  neighbors: { point: number; dist: number }[]
+  steps: SearchStep[]
+  // Distances computed to data points; a brute-force scan computes one per point
+  distances: number
+}
+
+const BALL_LEAF_SIZE = 4
+
+// Splits on the median along alternating axes; each node keeps its median point and the cell it splits
+export function buildKDTree(points: Point[], bounds: Box): IndexNode | null {
+  const build = (indices: number[], box: Box, depth: number): IndexNode | null => {
+    if (indices.length === 0) return null
+    const axis = depth % 2 === 0 ? "x" : "y"
+    const sorted = [...indices].sort((a, b) => points[a][axis] - points[b][axis])
+    const mid = Math.floor(sorted.length / 2)
+    const split = points[sorted[mid]][axis]
+    const lower: Box = { ...box, [axis]: [box[axis][0], split] }
+    const upper: Box = { ...box, [axis]: [split, box[axis][1]] }
+    const children = [build(sorted.slice(0, mid), lower, depth + 1), build(sorted.slice(mid + 1), upper, depth + 1)]
+    return {
+      region: { kind: "box", box },
+      points: [sorted[mid]],
+      children: children.filter((child): child is IndexNode => child !== null),
+    }
+  }
+  return build(points.map((_, i) => i), bounds, 0)
+}
+
+// Splits at the median of the axis with the widest spread until a node holds a few points. Radii are
+// measured with `distance`, so the balls take that metric's shape.
+export function buildBallTree(points: Point[], distance: DistanceFn, leafSize = BALL_LEAF_SIZE): IndexNode | null {
+  const build = (indices: number[]): IndexNode => {
+    const center = {
+      x: indices.reduce((sum, i) => sum + points[i].x, 0) / indices.length,
+      y: indices.reduce((sum, i) => sum + points[i].y, 0) / indices.length,
+    }
+    const radius = Math.max(...indices.map((i) => distance(points[i], center)))
+    const region: IndexRegion = { kind: "ball", center, radius }
+    if (indices.length <= leafSize) return { region, points: indices, children: [] }
+
+    const spread = (axis: "x" | "y") =>
+      Math.max(...indices.map((i) => points[i][axis])) - Math.min(...indices.map((i) => points[i][axis]))
+    const axis = spread("x") >= spread("y") ? "x" : "y"
+    const sorted = [...indices].sort((a, b) => points[a][axis] - points[b][axis])
+    const mid = Math.floor(sorted.length / 2)
+    return { region, points: [], children: [build(sorted.slice(0, mid)), build(sorted.slice(mid))] }
+  }
+  return points.length > 0 ? build(points.map((_, i) => i)) : null
+}
+
+// The least distance from the query to anything in the region. The box bound holds for any metric that
+// grows with each coordinate difference (every Minkowski p); the ball bound needs the triangle inequality.
+function lowerBound(region: IndexRegion, query: Point, distance: DistanceFn) {
+  if (region.kind === "ball") return Math.max(0, distance(query, region.center) - region.radius)
+  const { box } = region
+  const nearest = {
+    x: Math.min(Math.max(query.x, box.x[0]), box.x[1]),
+    y: Math.min(Math.max(query.y, box.y[0]), box.y[1]),
+  }
+  return distance(query, nearest)
+}
+
+// Depth-first k-NN search that descends into the nearer child first and skips any node whose region
+// can't hold anything closer than the current k-th neighbor, recording each step for playback
+export function searchIndex(
+  root: IndexNode | null,
+  points: Point[],
+  query: Point,
+  k: number,
+  distance: DistanceFn,
+): SearchResult {
+  const neighbors: { point: number; dist: number }[] = []
+  const steps: SearchStep[] = []
+  let distances = 0
+
+  const worst = () => (neighbors.length < k ? Infinity : neighbors[neighbors.length - 1].dist)
+
+  const visit = (node: IndexNode) => {
+    if (lowerBound(node.region, query, distance) > worst()) {
+      steps.push({ type: "prune", node })
+      return
+    }
+    steps.push({ type: "visit", node })
+
+    for (const point of node.points) {
+      const dist = distance(points[point], query)
+      distances++
+      steps.push({ type: "distance", point, dist })
+      if (dist >= worst()) continue
+      const at = neighbors.findIndex((n) => n.dist > dist)
+      neighbors.splice(at === -1 ? neighbors.length : at, 0, { point, dist })
+      if (neighbors.length > k) neighbors.pop()
+    }
+
+    const ordered = node.children
+      .map((child) => ({ child, bound: lowerBound(child.region, query, distance) }))
+      .sort((a, b) => a.bound - b.bound)
+    for (const { child } of ordered) visit(child)
+  }
+
+  if (root && k > 0) visit(root)
+  return { neighbors, steps, distances }
+}
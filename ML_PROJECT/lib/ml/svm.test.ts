@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest"
+import { alphasAtStep, fitSVM, makeKernel, modelAtStep, predictSVM, svmDecision, type SMOStep } from "./svm"
+import { createRandom } from "./random"
+
+// Label 1 inside a circle of radius 1.2, 0 outside, with a gap around the boundary
+function ring(n: number) {
+  const random = createRandom(3, "svm")
+  const points = []
+  while (points.length < n) {
+    const x = random() * 4 - 2
+    const y = random() * 4 - 2
+    const r = Math.hypot(x, y)
+    if (Math.abs(r - 1.2) > 0.2) points.push({ x, y, label: r < 1.2 ? 1 : 0 })
+  }
+  return points
+}
+
+const separable = [
+  { x: -2, y: -1, label: 0 },
+  { x: -1.5, y: 0.5, label: 0 },
+  { x: -1, y: -2, label: 0 },
+  { x: 1, y: 2, label: 1 },
+  { x: 1.5, y: -0.5, label: 1 },
+  { x: 2, y: 1, label: 1 },
+]
+
+describe("kernels", () => {
+  it("evaluates the built-in kernels", () => {
+    expect(makeKernel({ kernel: "linear", gamma: 1 })(1, 2, 3, 4)).toBe(11)
+    expect(makeKernel({ kernel: "poly", gamma: 1, degree: 2, coef0: 1 })(1, 2, 3, 4)).toBe(144)
+    expect(makeKernel({ kernel: "rbf", gamma: 0.5 })(0, 0, 1, 1)).toBeCloseTo(Math.exp(-1))
+  })
+
+  it("compiles a custom expression that matches the RBF kernel", () => {
+    const custom = makeKernel({ kernel: "custom", gamma: 0.5, expression: "exp(-gamma * ||x−y||²)" })
+    const rbf = makeKernel({ kernel: "rbf", gamma: 0.5 })
+    expect(custom(0.3, -1, 2, 0.5)).toBeCloseTo(rbf(0.3, -1, 2, 0.5))
+  })
+})
+
+describe("SMO", () => {
+  it("fits a linearly separable set with a valid dual solution", () => {
+    const model = fitSVM(separable, { kernel: "linear", gamma: 1, c: 10 })
+    expect(model.converged).toBe(true)
+    expect(separable.every((p) => predictSVM(model, p.x, p.y) === p.label)).toBe(true)
+    // 0 <= alpha <= C and sum(alpha_i y_i) = 0
+    expect(model.alphas.every((a) => a >= 0 && a <= 10)).toBe(true)
+    const balance = model.alphas.reduce((sum, a, i) => sum + a * (separable[i].label === 1 ? 1 : -1), 0)
+    expect(balance).toBeCloseTo(0, 6)
+    // Support vectors on the margin sit at |f(x)| = 1
+    for (const i of model.supportVectors) {
+      if (model.alphas[i] < 10 - 1e-6) expect(Math.abs(svmDecision(model, separable[i].x, separable[i].y))).toBeCloseTo(1, 2)
+    }
+  })
+
+  it("separates a ring with the RBF kernel", () => {
+    const points = ring(80)
+    const model = fitSVM(points, { kernel: "rbf", gamma: 1, c: 10 })
+    const errors = points.filter((p) => predictSVM(model, p.x, p.y) !== p.label).length
+    expect(errors).toBe(0)
+  })
+
+  it("replays the recorded pair updates back to the fitted model", () => {
+    const points = ring(60)
+    const steps: SMOStep[] = []
+    const model = fitSVM(points, { kernel: "rbf", gamma: 1, c: 1 }, (step) => {
+      steps.push(step)
+    })
+    expect(steps).toHaveLength(model.iterations)
+    expect(alphasAtStep(points.length, steps, steps.length)).toEqual(model.alphas)
+    expect(modelAtStep(model, steps, 0).supportVectors).toEqual([])
+    const last = modelAtStep(model, steps, steps.length)
+    expect(last.bias).toBe(model.bias)
+    expect(last.supportVectors).toEqual(model.supportVectors)
+  })
+
+  it("stops recording once onStep returns false", () => {
+    const steps: SMOStep[] = []
+    const model = fitSVM(ring(60), { kernel: "rbf", gamma: 1, c: 1 }, (step) => steps.push(step) < 5)
+    expect(steps).toHaveLength(5)
+    expect(model.iterations).toBeGreaterThan(5)
+  })
+})
@@ -0,0 +1,279 @@
+import { parseKernelExpression } from "./kernel-expression"
+import type { LabeledPoint } from "./types"
+
+export type KernelType = "linear" | "poly" | "rbf" | "sigmoid" | "custom"
+
+export type KernelParams = {
+  kernel: KernelType
+  gamma: number
+  // Polynomial kernel: (gamma * x·y + coef0)^degree; sigmoid: tanh(gamma * x·y + coef0)
+  degree?: number
+  coef0?: number
+  // Custom kernel in terms of dot, dist, gamma and coef0, see parseKernelExpression
+  expression?: string
+}
+
+export type SVMParams = KernelParams & {
+  c: number
+  // KKT tolerance and a cap on alpha-pair updates to keep the UI responsive
+  tolerance?: number
+  maxIterations?: number
+}
+
+export type Kernel = (x1: number, y1: number, x2: number, y2: number) => number
+
+export type SVMModel = {
+  points: LabeledPoint[]
+  // Lagrange multipliers, 0 <= alpha_i <= C
+  alphas: number[]
+  bias: number
+  c: number
+  kernel: Kernel
+  // Indices of the points with a non-zero alpha
+  supportVectors: number[]
+  // Dual objective: sum(alpha) - 1/2 * sum(alpha_i alpha_j y_i y_j K_ij)
+  objective: number
+  iterations: number
+  converged: boolean
+}
+
+// One SMO pair update, recorded for playback. Only the pair is stored; alphasAtStep replays the
+// updates to rebuild the full vector.
+export type SMOStep = {
+  i1: number
+  i2: number
+  // Alphas of the pair before and after the update
+  previous: [number, number]
+  next: [number, number]
+  // State after the update
+  bias: number
+  biasDelta: number
+  objective: number
+  // Points still violating the KKT conditions after this update
+  violations: number
+}
+
+// Throws if a custom expression doesn't parse
+export function makeKernel({ kernel, gamma, degree = 3, coef0 = 1, expression = "" }: KernelParams): Kernel {
+  if (kernel === "linear") return (x1, y1, x2, y2) => x1 * x2 + y1 * y2
+  if (kernel === "poly") return (x1, y1, x2, y2) => (gamma * (x1 * x2 + y1 * y2) + coef0) ** degree
+  if (kernel === "sigmoid") return (x1, y1, x2, y2) => Math.tanh(gamma * (x1 * x2 + y1 * y2) + coef0)
+  if (kernel === "custom") {
+    const fn = parseKernelExpression(expression)
+    return (x1, y1, x2, y2) => {
+      const value = fn({ dot: x1 * x2 + y1 * y2, dist: (x1 - x2) ** 2 + (y1 - y2) ** 2, gamma, coef0 })
+      // Keep the solver finite when the expression blows up (log(0), division by zero, ...)
+      return Number.isFinite(value) ? value : 0
+    }
+  }
+  return (x1, y1, x2, y2) => Math.exp(-gamma * ((x1 - x2) ** 2 + (y1 - y2) ** 2))
+}
+
+const sign = (label: number) => (label === 1 ? 1 : -1)
+
+const EPS = 1e-3
+const ALPHA_EPS = 1e-8
+
+export function dualObjective(alphas: number[], targets: number[], gram: number[][]) {
+  let sum = 0
+  let quad = 0
+  for (let i = 0; i < alphas.length; i++) {
+    if (alphas[i] === 0) continue
+    sum += alphas[i]
+    for (let j = 0; j < alphas.length; j++) {
+      if (alphas[j] === 0) continue
+      quad += alphas[i] * alphas[j] * targets[i] * targets[j] * gram[i][j]
+    }
+  }
+  return sum - quad / 2
+}
+
+// Platt's Sequential Minimal Optimization for the soft-margin dual.
+// Labels are 1 for the positive class and anything else for the negative one.
+// Pass onStep to record the successful pair updates; recording stops once it returns false.
+export function fitSVM(
+  points: LabeledPoint[],
+  params: SVMParams,
+  onStep?: (step: SMOStep) => boolean | void,
+): SVMModel {
+  const { c, tolerance = 1e-3, maxIterations = 10000 } = params
+  const k = makeKernel(params)
+  const n = points.length
+  const targets = points.map((p) => sign(p.label))
+  const gram = points.map((p) => points.map((q) => k(p.x, p.y, q.x, q.y)))
+
+  const alphas = new Array<number>(n).fill(0)
+  let bias = 0
+  // Prediction error f(x_i) - y_i for every point, kept up to date after each step
+  const errors = targets.map((t) => -t)
+  let iterations = 0
+  let recording = onStep !== undefined
+
+  const violatesKKT = (i: number) => {
+    const r = errors[i] * targets[i]
+    return (r < -tolerance && alphas[i] < c) || (r > tolerance && alphas[i] > 0)
+  }
+
+  const takeStep = (i1: number, i2: number) => {
+    if (i1 === i2) return false
+    const a1 = alphas[i1]
+    const a2 = alphas[i2]
+    const y1 = targets[i1]
+    const y2 = targets[i2]
+    const e1 = errors[i1]
+    const e2 = errors[i2]
+    const s = y1 * y2
+
+    const low = s < 0 ? Math.max(0, a2 - a1) : Math.max(0, a1 + a2 - c)
+    const high = s < 0 ? Math.min(c, c + a2 - a1) : Math.min(c, a1 + a2)
+    if (low === high) return false
+
+    const k11 = gram[i1][i1]
+    const k12 = gram[i1][i2]
+    const k22 = gram[i2][i2]
+    const eta = k11 + k22 - 2 * k12
+
+    let a2New: number
+    if (eta > 0) {
+      a2New = Math.min(high, Math.max(low, a2 + (y2 * (e1 - e2)) / eta))
+    } else {
+      // Degenerate pair: move to whichever end of the segment lowers the (negated) dual
+      const f1 = y1 * (e1 - bias) - a1 * k11 - s * a2 * k12
+      const f2 = y2 * (e2 - bias) - s * a1 * k12 - a2 * k22
+      const objectiveAt = (a: number) => {
+        const other = a1 + s * (a2 - a)
+        return other * f1 + a * f2 + 0.5 * other * other * k11 + 0.5 * a * a * k22 + s * a * other * k12
+      }
+      const lowObj = objectiveAt(low)
+      const highObj = objectiveAt(high)
+      if (lowObj < highObj - EPS) a2New = low
+      else if (lowObj > highObj + EPS) a2New = high
+      else a2New = a2
+    }
+
+    if (Math.abs(a2New - a2) < EPS * (a2New + a2 + EPS)) return false
+    const a1New = a1 + s * (a2 - a2New)
+
+    const b1 = bias - e1 - y1 * (a1New - a1) * k11 - y2 * (a2New - a2) * k12
+    const b2 = bias - e2 - y1 * (a1New - a1) * k12 - y2 * (a2New - a2) * k22
+    const biasNew = a1New > 0 && a1New < c ? b1 : a2New > 0 && a2New < c ? b2 : (b1 + b2) / 2
+
+    const d1 = y1 * (a1New - a1)
+    const d2 = y2 * (a2New - a2)
+    for (let i = 0; i < n; i++) {
+      errors[i] += d1 * gram[i1][i] + d2 * gram[i2][i] + biasNew - bias
+    }
+
+    alphas[i1] = a1New
+    alphas[i2] = a2New
+    if (recording) {
+      recording =
+        onStep!({
+          i1,
+          i2,
+          previous: [a1, a2],
+          next: [a1New, a2New],
+          bias: biasNew,
+          biasDelta: biasNew - bias,
+          // Equals dualObjective() since sum(alpha_i y_i) = 0, but O(n) using the error cache
+          objective: alphas.reduce((sum, a, i) => sum + (a * (1 - targets[i] * errors[i])) / 2, 0),
+          violations: alphas.filter((_, i) => violatesKKT(i)).length,
+        }) !== false
+    }
+    bias = biasNew
+    iterations++
+    return true
+  }
+
+  const isNonBound = (i: number) => alphas[i] > 0 && alphas[i] < c
+
+  const examineExample = (i2: number) => {
+    if (!violatesKKT(i2)) return false
+
+    const nonBound = alphas.map((_, i) => i).filter(isNonBound)
+
+    // Second-choice heuristic: the partner with the largest |E1 - E2|
+    if (nonBound.length > 1) {
+      let i1 = -1
+      let best = -1
+      for (const i of nonBound) {
+        const gap = Math.abs(errors[i] - errors[i2])
+        if (gap > best) {
+          best = gap
+          i1 = i
+        }
+      }
+      if (takeStep(i1, i2)) return true
+    }
+
+    // Fall back to the non-bound points, then to everything, starting after i2
+    for (let offset = 1; offset <= nonBound.length; offset++) {
+      if (takeStep(nonBound[(i2 + offset) % nonBound.length], i2)) return true
+    }
+    for (let offset = 1; offset < n; offset++) {
+      if (takeStep((i2 + offset) % n, i2)) return true
+    }
+    return false
+  }
+
+  let examineAll = true
+  let numChanged = 0
+  while ((numChanged > 0 || examineAll) && iterations < maxIterations) {
+    numChanged = 0
+    for (let i = 0; i < n && iterations < maxIterations; i++) {
+      if (examineAll || isNonBound(i)) numChanged += examineExample(i) ? 1 : 0
+    }
+    if (examineAll) examineAll = false
+    else if (numChanged === 0) examineAll = true
+  }
+
+  const supportVectors = alphas.flatMap((a, i) => (a > ALPHA_EPS ? [i] : []))
+
+  return {
+    points,
+    alphas,
+    bias,
+    c,
+    kernel: k,
+    supportVectors,
+    objective: dualObjective(alphas, targets, gram),
+    iterations,
+    converged: iterations < maxIterations,
+  }
+}
+
+// Alphas after the first `count` recorded steps, replayed from all zeros
+export function alphasAtStep(n: number, steps: SMOStep[], count: number) {
+  const alphas = new Array<number>(n).fill(0)
+  for (const step of steps.slice(0, count)) {
+    alphas[step.i1] = step.next[0]
+    alphas[step.i2] = step.next[1]
+  }
+  return alphas
+}
+
+// The model as it stood after the first `count` recorded steps; 0 is the untrained model
+export function modelAtStep(model: SVMModel, steps: SMOStep[], count: number): SVMModel {
+  const alphas = alphasAtStep(model.points.length, steps, count)
+  const step = count > 0 ? steps[count - 1] : null
+  return {
+    ...model,
+    alphas,
+    bias: step?.bias ?? 0,
+    supportVectors: alphas.flatMap((a, i) => (a > ALPHA_EPS ? [i] : [])),
+    objective: step?.objective ?? 0,
+  }
+}
+
+export function svmDecision(model: SVMModel, x: number, y: number) {
+  let sum = model.bias
+  for (const i of model.supportVectors) {
+    const p = model.points[i]
+    sum += model.alphas[i] * sign(p.label) * model.kernel(x, y, p.x, p.y)
+  }
+  return sum
+}
+
+export function predictSVM(model: SVMModel, x: number, y: number) {
+  return svmDecision(model, x, y) > 0 ? 1 : 0
+}
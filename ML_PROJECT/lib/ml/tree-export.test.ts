@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest"
+import { buildForest, forestVote } from "./random-forest"
+import { buildTree, predictTree, type Sample } from "./decision-tree"
+import { createRandom } from "./random"
+import {
+  exportTreeJSON,
+  parseTreeJSON,
+  treeToJavaScript,
+  treeToRules,
+  TREE_FORMAT_VERSION,
+  type TreeModel,
+} from "./tree-export"
+
+function dataset(n: number): Sample[] {
+  const random = createRandom(9, "export")
+  return Array.from({ length: n }, () => {
+    const features = [random(), random(), random()]
+    return { features, label: features[0] > 0.6 ? 2 : features[1] > 0.5 ? 1 : 0 }
+  })
+}
+
+const data = dataset(120)
+const forest = buildForest(
+  data,
+  { maxDepth: 4, minSamplesSplit: 2, criterion: "gini", numberOfTrees: 5, subsampleRatio: 1, featureSubsetRatio: 0.7 },
+  createRandom(9),
+)
+const model: TreeModel = {
+  format: "random-forest",
+  version: TREE_FORMAT_VERSION,
+  criterion: "gini",
+  featureNames: ["a", "b", "c"],
+  classNames: ["low", "mid", "high"],
+  trees: forest.map((member) => member.tree),
+}
+
+// Applies `edit` to a parsed copy of the model's JSON and re-serializes it
+const edited = (edit: (json: any) => void) => {
+  const json = JSON.parse(exportTreeJSON(model))
+  edit(json)
+  return JSON.stringify(json)
+}
+
+describe("tree export", () => {
+  it("reads its own JSON back unchanged", () => {
+    expect(parseTreeJSON(exportTreeJSON(model))).toEqual(model)
+  })
+
+  it("generates JavaScript that predicts like the forest", () => {
+    const predict = new Function(`${treeToJavaScript(model)}\nreturn predict`)() as (x: number[]) => string
+    for (const sample of data) {
+      expect(predict(sample.features)).toBe(model.classNames[forestVote(forest, sample.features, 3).final])
+    }
+  })
+
+  it("writes one rule per split and leaf", () => {
+    const tree = buildTree(data, { maxDepth: 2, minSamplesSplit: 2, criterion: "gini" })
+    const rules = treeToRules({ ...model, format: "decision-tree", trees: [tree] })
+    expect(rules.split("\n")[0]).toMatch(/^if [abc] <= \d\.\d{3}:$/)
+    expect(rules).toContain(`predict ${model.classNames[predictTree(tree, data[0].features)]}`)
+  })
+
+  it("rejects files that would break the diagram", () => {
+    expect(() => parseTreeJSON(edited((json) => (json.format = "svm")))).toThrow(/format/)
+    expect(() => parseTreeJSON(edited((json) => (json.version = TREE_FORMAT_VERSION + 1)))).toThrow(/version/)
+    expect(() => parseTreeJSON(edited((json) => (json.trees[0].feature = 7)))).toThrow(/unknown feature/)
+    expect(() => parseTreeJSON(edited((json) => (json.trees[0].candidates = [0, 3])))).toThrow(/candidate/)
+    expect(() => parseTreeJSON(edited((json) => (json.trees[0].counts = { 5: 1 })))).toThrow(/unknown class/)
+    expect(() => parseTreeJSON(edited((json) => (json.trees[0].counts = { 0: -2 })))).toThrow(/invalid count/)
+    expect(() => parseTreeJSON(edited((json) => (json.trees[0].left = null)))).toThrow(/left and a right/)
+  })
+})
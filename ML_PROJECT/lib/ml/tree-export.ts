@@ -0,0 +1,207 @@
+import { isRegression, type Criterion, type TreeNode } from "./decision-tree"
+
+// Bumped whenever the JSON layout changes; older files keep loading, newer ones are rejected
+export const TREE_FORMAT_VERSION = 1
+
+export type TreeModel = {
+  format: "decision-tree" | "random-forest"
+  version: number
+  criterion: Criterion
+  featureNames: string[]
+  // Empty for regression trees, whose leaves hold the predicted value
+  classNames: string[]
+  // A single tree, or every tree of the forest
+  trees: TreeNode[]
+}
+
+export type ExportFormat = "json" | "rules" | "python" | "javascript"
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string }> = {
+  json: { label: "JSON", extension: "json" },
+  rules: { label: "If/else rules", extension: "txt" },
+  python: { label: "Python", extension: "py" },
+  javascript: { label: "JavaScript", extension: "js" },
+}
+
+const CRITERIA: Criterion[] = ["gini", "entropy", "mse", "mae"]
+
+export function exportTreeJSON(model: TreeModel) {
+  return JSON.stringify(model, null, 2)
+}
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value)
+const isIndex = (value: unknown, length: number): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < length
+
+// Class counts keyed by class index; a class with no samples at the node may be left out
+function parseCounts(value: unknown, numClasses: number, where: string): Record<number, number> {
+  if (value == null) return {}
+  if (typeof value !== "object" || Array.isArray(value)) throw new Error(`${where} has malformed class counts`)
+  const counts: Record<number, number> = {}
+  for (const [key, count] of Object.entries(value)) {
+    const label = Number(key)
+    if (!/^\d+$/.test(key) || !isIndex(label, numClasses)) throw new Error(`${where} counts an unknown class "${key}"`)
+    if (!isIndex(count, Infinity)) throw new Error(`${where} has an invalid count for class ${key}`)
+    counts[label] = count
+  }
+  return counts
+}
+
+// Checks a node and its subtree, filling in the fields a hand-edited file may leave out
+function parseNode(value: unknown, numFeatures: number, numClasses: number, where: string): TreeNode {
+  if (typeof value !== "object" || value === null) throw new Error(`${where} is not a node`)
+  const node = value as Partial<TreeNode>
+  if (!isNumber(node.value)) throw new Error(`${where} has no numeric value`)
+
+  const split = node.left != null || node.right != null
+  if (split) {
+    if (node.left == null || node.right == null) throw new Error(`${where} needs both a left and a right child`)
+    if (!isIndex(node.feature, numFeatures)) {
+      throw new Error(`${where} splits on an unknown feature`)
+    }
+    if (!isNumber(node.threshold)) throw new Error(`${where} has no numeric threshold`)
+  }
+  if (node.candidates != null) {
+    if (!Array.isArray(node.candidates)) throw new Error(`${where} has malformed split candidates`)
+    if (!node.candidates.every((f) => isIndex(f, numFeatures))) throw new Error(`${where} lists an unknown candidate feature`)
+  }
+
+  return {
+    feature: split ? node.feature! : null,
+    threshold: split ? node.threshold! : null,
+    impurity: isNumber(node.impurity) ? node.impurity : null,
+    left: split ? parseNode(node.left, numFeatures, numClasses, `${where}.left`) : null,
+    right: split ? parseNode(node.right, numFeatures, numClasses, `${where}.right`) : null,
+    value: node.value,
+    samples: isNumber(node.samples) ? node.samples : 0,
+    counts: parseCounts(node.counts, numClasses, where),
+    candidates: split && node.candidates ? node.candidates : [],
+  }
+}
+
+export function parseTreeJSON(text: string): TreeModel {
+  const data = JSON.parse(text)
+  if (typeof data !== "object" || data === null) throw new Error("The file is not a tree export")
+  if (data.format !== "decision-tree" && data.format !== "random-forest") {
+    throw new Error('Expected "format" to be "decision-tree" or "random-forest"')
+  }
+  if (!isNumber(data.version) || data.version > TREE_FORMAT_VERSION) {
+    throw new Error(`Unsupported version ${data.version}; this page reads up to version ${TREE_FORMAT_VERSION}`)
+  }
+  if (!CRITERIA.includes(data.criterion)) throw new Error(`Unknown criterion "${data.criterion}"`)
+  if (!Array.isArray(data.featureNames) || data.featureNames.length === 0) throw new Error("The file lists no features")
+  if (!Array.isArray(data.trees) || data.trees.length === 0) throw new Error("The file contains no trees")
+
+  const classNames: string[] = Array.isArray(data.classNames) ? data.classNames.map(String) : []
+  const trees = data.trees.map((tree: unknown, t: number) =>
+    parseNode(tree, data.featureNames.length, classNames.length, `trees[${t}]`),
+  )
+  if (!isRegression(data.criterion)) {
+    const leafOutOfRange = (node: TreeNode): boolean =>
+      node.left && node.right ? leafOutOfRange(node.left) || leafOutOfRange(node.right) : !(node.value in classNames)
+    if (trees.some(leafOutOfRange)) throw new Error("A leaf predicts a class that isn't in classNames")
+  }
+
+  return {
+    format: data.format,
+    version: data.version,
+    criterion: data.criterion,
+    featureNames: data.featureNames.map(String),
+    classNames,
+    trees,
+  }
+}
+
+// Shortest decimal that reads back as the same double, valid in both Python and JavaScript
+const literal = (value: number) => String(value)
+
+function leafLabel(node: TreeNode, classNames: string[]) {
+  return classNames.length > 0 ? classNames[node.value] : node.value.toFixed(3)
+}
+
+// Indented if/else pseudocode, one rule per split
+export function treeToRules(model: TreeModel) {
+  const lines: string[] = []
+  const visit = (node: TreeNode, indent: string) => {
+    if (!node.left || !node.right) {
+      lines.push(`${indent}predict ${leafLabel(node, model.classNames)} (${node.samples} samples)`)
+      return
+    }
+    const condition = `${model.featureNames[node.feature!]} <= ${node.threshold!.toFixed(3)}`
+    lines.push(`${indent}if ${condition}:`)
+    visit(node.left, `${indent}  `)
+    lines.push(`${indent}else:  # ${model.featureNames[node.feature!]} > ${node.threshold!.toFixed(3)}`)
+    visit(node.right, `${indent}  `)
+  }
+
+  model.trees.forEach((tree, t) => {
+    if (model.trees.length > 1) lines.push(`${t > 0 ? "\n" : ""}# Tree ${t + 1}`)
+    visit(tree, "")
+  })
+  if (model.trees.length > 1) lines.push(`\n# The forest predicts the class most trees vote for`)
+  return lines.join("\n")
+}
+
+function header(model: TreeModel, comment: string) {
+  const kind = model.format === "random-forest" ? `Random forest of ${model.trees.length} trees` : "Decision tree"
+  return [
+    `${comment} ${kind} (${model.criterion}), export format version ${model.version}`,
+    `${comment} x is a list of feature values in this order:`,
+    ...model.featureNames.map((name, f) => `${comment}   x[${f}] ${name}`),
+  ].join("\n")
+}
+
+// Leaves return class indices (or the regression value); the forest's vote picks the lowest index on ties
+export function treeToPython(model: TreeModel) {
+  const body = (node: TreeNode, indent: string): string => {
+    if (!node.left || !node.right) return `${indent}return ${literal(node.value)}\n`
+    return (
+      `${indent}if x[${node.feature}] <= ${literal(node.threshold!)}:  # ${model.featureNames[node.feature!]}\n` +
+      body(node.left, `${indent}    `) +
+      `${indent}else:\n` +
+      body(node.right, `${indent}    `)
+    )
+  }
+
+  const classification = model.classNames.length > 0
+  const names = model.trees.map((_, t) => `tree_${t}`)
+  const trees = model.trees.map((tree, t) => `def ${names[t]}(x):\n${body(tree, "    ")}`).join("\n\n")
+  const outputs = `[${names.map((name) => `${name}(x)`).join(", ")}]`
+  const predict = classification
+    ? `CLASSES = ${JSON.stringify(model.classNames)}\n\n\ndef predict(x):\n    votes = ${outputs}\n` +
+      `    return CLASSES[max(range(len(CLASSES)), key=votes.count)]\n`
+    : `def predict(x):\n    outputs = ${outputs}\n    return sum(outputs) / len(outputs)\n`
+
+  return `${header(model, "#")}\n\n\n${trees}\n\n${predict}`
+}
+
+export function treeToJavaScript(model: TreeModel) {
+  const body = (node: TreeNode, indent: string): string => {
+    if (!node.left || !node.right) return `${indent}return ${literal(node.value)}\n`
+    return (
+      `${indent}if (x[${node.feature}] <= ${literal(node.threshold!)}) { // ${model.featureNames[node.feature!]}\n` +
+      body(node.left, `${indent}  `) +
+      `${indent}} else {\n` +
+      body(node.right, `${indent}  `) +
+      `${indent}}\n`
+    )
+  }
+
+  const classification = model.classNames.length > 0
+  const names = model.trees.map((_, t) => `tree${t}`)
+  const trees = model.trees.map((tree, t) => `function ${names[t]}(x) {\n${body(tree, "  ")}}`).join("\n\n")
+  const outputs = `[${names.map((name) => `${name}(x)`).join(", ")}]`
+  const predict = classification
+    ? `const CLASSES = ${JSON.stringify(model.classNames)}\n\nfunction predict(x) {\n  const counts = CLASSES.map(() => 0)\n` +
+      `  for (const vote of ${outputs}) counts[vote]++\n  return CLASSES[counts.indexOf(Math.max(...counts))]\n}\n`
+    : `function predict(x) {\n  const outputs = ${outputs}\n  return outputs.reduce((a, b) => a + b, 0) / outputs.length\n}\n`
+
+  return `${header(model, "//")}\n\n${trees}\n\n${predict}`
+}
+
+export function exportTree(model: TreeModel, format: ExportFormat) {
+  if (format === "rules") return treeToRules(model)
+  if (format === "python") return treeToPython(model)
+  if (format === "javascript") return treeToJavaScript(model)
+  return exportTreeJSON(model)
+}
@@ -0,0 +1,6 @@
+export type Point = { x: number; y: number }
+
+export type LabeledPoint = Point & { label: number }
+
+// Source of uniform numbers in [0, 1), Math.random-compatible
+export type RandomFn = () => number